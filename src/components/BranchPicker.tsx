@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { listSourceBranches } from "@/lib/github";
+import { isBranchSelected, parseBranchPatterns } from "../../supabase/functions/_shared/branch-patterns.ts";
+import { Loader2 } from "lucide-react";
+
+interface BranchPickerProps {
+  sourceUrl: string;
+  sourceToken: string;
+  // Patterns as typed, separated by commas or spaces
+  patterns: string;
+  onPatternsChange: (patterns: string) => void;
+  disabled?: boolean;
+}
+
+const REPO_URL = /^https?:\/\/github\.com\/[^/\s]+\/[^/\s]+/;
+
+// Ticking a branch rewrites the patterns: drops the ones naming exactly that branch and,
+// if the remaining globs do not already give the wanted state, appends "name" or "!name".
+function toggleBranch(patterns: string[], name: string, selected: boolean): string[] {
+  const rest = patterns.filter((p) => p !== name && p !== `!${name}`);
+  if (isBranchSelected(name, rest) === selected) return rest;
+  return [...rest, selected ? name : `!${name}`];
+}
+
+const BranchPicker = ({ sourceUrl, sourceToken, patterns, onPatternsChange, disabled }: BranchPickerProps) => {
+  const ready = REPO_URL.test(sourceUrl) && sourceToken.length > 0;
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["source-branches", sourceUrl, sourceToken],
+    queryFn: () => listSourceBranches(sourceUrl, sourceToken),
+    enabled: ready,
+    retry: false,
+    staleTime: 60_000,
+  });
+  const parsed = parseBranchPatterns(patterns);
+  const selected = data?.branches.filter((name) => name === data.defaultBranch || isBranchSelected(name, parsed));
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="branch-patterns">Branches</Label>
+      <Input
+        id="branch-patterns"
+        placeholder="Todos os branches (ex.: main, release/*, !dependabot/**)"
+        value={patterns}
+        onChange={(e) => onPatternsChange(e.target.value)}
+        disabled={disabled}
+        className="font-mono"
+      />
+      {isFetching && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Carregando branches da origem...
+        </div>
+      )}
+      {error && <p className="text-xs text-destructive">{error.message}</p>}
+      {data && selected && (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {selected.length} de {data.branches.length} branch(es) selecionado(s)
+          </div>
+          <div className="max-h-48 overflow-y-auto rounded border p-2 space-y-1.5">
+            {data.branches.map((name) => {
+              const isDefault = name === data.defaultBranch;
+              return (
+                <div key={name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`branch-${name}`}
+                    checked={selected.includes(name)}
+                    onCheckedChange={(checked) => onPatternsChange(toggleBranch(parsed, name, checked === true).join(", "))}
+                    disabled={disabled || isDefault}
+                  />
+                  <Label htmlFor={`branch-${name}`} className="font-mono font-normal text-xs truncate">{name}</Label>
+                  {isDefault && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">padrão</Badge>}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export { BranchPicker };
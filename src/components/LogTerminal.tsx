@@ -0,0 +1,58 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import type { LogEntry } from "@/lib/github";
+
+interface LogTerminalProps {
+  logs: LogEntry[];
+  // Shows a blinking cursor while more output is expected
+  running?: boolean;
+}
+
+const LogTerminal = ({ logs, running = false }: LogTerminalProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest line in view as logs arrive
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTo({ top: el.scrollHeight, behavior: "smooth" });
+  }, [logs.length]);
+
+  return (
+    <Card className="border-border/50 bg-[hsl(220,13%,10%)] text-[hsl(120,100%,90%)]">
+      <CardHeader className="pb-2 pt-3 px-4">
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1.5">
+            <span className="h-3 w-3 rounded-full bg-[hsl(0,70%,55%)]" />
+            <span className="h-3 w-3 rounded-full bg-[hsl(45,80%,55%)]" />
+            <span className="h-3 w-3 rounded-full bg-[hsl(120,50%,50%)]" />
+          </div>
+          <span className="text-xs font-mono text-[hsl(220,10%,55%)]">github-mirror — terminal</span>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 pt-0">
+        <div ref={scrollRef} className="max-h-80 overflow-y-auto space-y-1 font-mono text-xs leading-relaxed">
+          {logs.map((log, i) => (
+            <div key={i} className="flex items-start gap-2">
+              <span className="text-[hsl(220,10%,45%)] shrink-0">{log.time}</span>
+              <span className={
+                log.type === "error" ? "text-[hsl(0,80%,65%)]" :
+                log.type === "success" ? "text-[hsl(120,60%,65%)]" :
+                log.type === "warn" ? "text-[hsl(45,80%,65%)]" :
+                "text-[hsl(220,10%,75%)]"
+              }>
+                {log.msg}
+              </span>
+            </div>
+          ))}
+          {running && (
+            <div className="flex items-center gap-1 text-[hsl(120,60%,65%)]">
+              <span className="animate-pulse">▌</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { LogTerminal };
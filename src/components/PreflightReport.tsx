@@ -0,0 +1,136 @@
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { MirrorPreflight } from "@/lib/github";
+import type { PreflightPaths, PreflightRateLimit } from "../../supabase/functions/_shared/mirror-preflight.ts";
+import { AlertTriangle, ChevronDown } from "lucide-react";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+const BranchList = ({ label, names, variant }: { label: string; names: string[]; variant: "destructive" | "secondary" | "outline" }) => {
+  if (names.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">{label} ({names.length})</div>
+      <div className="flex flex-wrap gap-1">
+        {names.map((name) => (
+          <Badge key={name} variant={variant} className="font-mono font-normal">{name}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const PathChanges = ({ sign, label, list, className }: { sign: string; label: string; list: PreflightPaths; className: string }) => {
+  if (list.count === 0) return null;
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-sm hover:underline">
+        <span className={`font-mono ${className}`}>{sign}{list.count}</span> {label}
+        <ChevronDown className="h-3.5 w-3.5" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-1 max-h-32 overflow-y-auto rounded border bg-muted/40 p-2 font-mono text-xs space-y-0.5">
+          {list.paths.map((path) => <div key={path} className="truncate">{path}</div>)}
+          {list.count > list.paths.length && (
+            <div className="text-muted-foreground">... e mais {list.count - list.paths.length}</div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const RenamedList = ({ renamed }: { renamed: MirrorPreflight["renamed"] }) => {
+  if (renamed.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">Nomes no destino ({renamed.length})</div>
+      <div className="max-h-32 overflow-y-auto rounded border bg-muted/40 p-2 font-mono text-xs space-y-0.5">
+        {renamed.map(({ source, destination }) => (
+          <div key={source} className="truncate">{source} → {destination}</div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const RateLine = ({ label, calls, limit }: { label: string; calls: number; limit: PreflightRateLimit }) => (
+  <div className={calls > limit.remaining ? "text-destructive" : undefined}>
+    {label}: ~{calls} requisições · {limit.remaining} de {limit.limit} disponíveis
+  </div>
+);
+
+const PreflightReport = ({ report }: { report: MirrorPreflight }) => {
+  const { source, destination, defaultBranch, files, apiCalls, rateLimit } = report;
+  const noChanges = defaultBranch.added.count + defaultBranch.changed.count + defaultBranch.removed.count === 0;
+
+  return (
+    <div className="space-y-4 text-sm text-foreground">
+      <div className="font-mono text-xs text-muted-foreground">
+        {source.fullName} ({source.defaultBranch}) → {destination.fullName} ({destination.defaultBranch})
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold">Branches</h4>
+        <BranchList label="Serão substituídos" names={report.overwritten} variant="destructive" />
+        <BranchList label="Serão criados" names={report.created} variant="secondary" />
+        <BranchList label="Serão removidos (não existem mais na origem)" names={report.pruned} variant="destructive" />
+        <BranchList label="Só existem no destino (mantidos)" names={report.orphaned} variant="outline" />
+        <RenamedList renamed={report.renamed} />
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="font-semibold">Arquivos</h4>
+        <div className="text-muted-foreground">
+          {files.count} arquivo(s), {formatBytes(files.bytes)}
+          {files.submodules > 0 && `, ${files.submodules} submódulo(s)`}
+          {files.excluded > 0 && `, ${files.excluded} caminho(s) excluído(s) pelas regras`}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="font-semibold">Branch padrão '{destination.defaultBranch}'</h4>
+        {noChanges ? (
+          <div className="text-muted-foreground">Nenhum arquivo será alterado</div>
+        ) : (
+          <>
+            <PathChanges sign="+" label="adicionado(s)" list={defaultBranch.added} className="text-green-600" />
+            <PathChanges sign="~" label="alterado(s)" list={defaultBranch.changed} className="text-yellow-600" />
+            <PathChanges sign="−" label="removido(s)" list={defaultBranch.removed} className="text-destructive" />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="font-semibold">Requisições à API (estimativa)</h4>
+        <div className="text-muted-foreground space-y-0.5">
+          <RateLine label="Origem" calls={apiCalls.source} limit={rateLimit.source} />
+          <RateLine label="Destino" calls={apiCalls.destination} limit={rateLimit.destination} />
+        </div>
+      </div>
+
+      {report.warnings.length > 0 && (
+        <div className="rounded-lg border border-yellow-300/50 bg-yellow-50 dark:bg-yellow-900/10 dark:border-yellow-700/30 p-3 space-y-1">
+          {report.warnings.map((warning) => (
+            <div key={warning} className="flex gap-2 text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <span>{warning}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { PreflightReport };
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { resumeMirror } from "@/lib/github";
+import { Loader2, RotateCw } from "lucide-react";
+
+interface ResumeButtonProps {
+  jobId: string;
+  sourceUrl: string;
+  destUrl: string;
+  // Prefill the token fields; the user can still change them
+  sourceToken?: string;
+  destToken?: string;
+  onDone?: () => void;
+}
+
+const ResumeButton = ({ jobId, sourceUrl, destUrl, sourceToken = "", destToken = "", onDone }: ResumeButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [tokens, setTokens] = useState({ source: sourceToken, dest: destToken });
+  const resume = useMutation({
+    mutationFn: () => resumeMirror(jobId, sourceUrl, destUrl, tokens.source, tokens.dest),
+    onSuccess: () => {
+      setOpen(false);
+      onDone?.();
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (resume.isPending) return;
+    setOpen(next);
+    if (next) {
+      setTokens({ source: sourceToken, dest: destToken });
+      resume.reset();
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RotateCw className="h-4 w-4 mr-2" />
+          Retomar
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Retomar mirror</AlertDialogTitle>
+          <AlertDialogDescription>
+            O mirror de <span className="font-mono">{sourceUrl}</span> para{" "}
+            <span className="font-mono">{destUrl}</span> continua do último checkpoint, com as mesmas opções. O
+            andamento aparece nesta página.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={`resume-source-token-${jobId}`}>Token da origem (PAT)</Label>
+            <Input
+              id={`resume-source-token-${jobId}`}
+              type="password"
+              placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+              value={tokens.source}
+              onChange={(e) => setTokens({ ...tokens, source: e.target.value })}
+              disabled={resume.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`resume-dest-token-${jobId}`}>Token do destino (PAT)</Label>
+            <Input
+              id={`resume-dest-token-${jobId}`}
+              type="password"
+              placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+              value={tokens.dest}
+              onChange={(e) => setTokens({ ...tokens, dest: e.target.value })}
+              disabled={resume.isPending}
+            />
+          </div>
+        </div>
+        {resume.error && <p className="text-sm text-destructive">{resume.error.message}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={resume.isPending}>Cancelar</AlertDialogCancel>
+          <Button onClick={() => resume.mutate()} disabled={!tokens.source || !tokens.dest || resume.isPending}>
+            {resume.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Retomar
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export { ResumeButton };
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { rollbackMirror, type RollbackResult } from "@/lib/github";
+import { Loader2, Undo2 } from "lucide-react";
+
+interface RollbackButtonProps {
+  jobId: string;
+  destUrl: string;
+  // Prefills the token field; the user can still change it
+  destToken?: string;
+  onDone?: (result: RollbackResult) => void;
+  className?: string;
+}
+
+const RollbackButton = ({ jobId, destUrl, destToken = "", onDone, className }: RollbackButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState(destToken);
+  const rollback = useMutation({
+    mutationFn: () => rollbackMirror(jobId, token),
+    onSuccess: (result) => {
+      setOpen(false);
+      onDone?.(result);
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (rollback.isPending) return;
+    setOpen(next);
+    if (next) {
+      setToken(destToken);
+      rollback.reset();
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Desfazer mirror
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Desfazer mirror</AlertDialogTitle>
+          <AlertDialogDescription>
+            Os branches e tags alterados por este mirror em <span className="font-mono">{destUrl}</span> voltam
+            para os commits de antes do mirror, e os criados por ele são removidos. Se o destino tiver sido alterado
+            depois do mirror, nada é desfeito.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`rollback-token-${jobId}`}>Token do destino (PAT)</Label>
+          <Input
+            id={`rollback-token-${jobId}`}
+            type="password"
+            placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            disabled={rollback.isPending}
+          />
+        </div>
+        {rollback.error && <p className="text-sm text-destructive">{rollback.error.message}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={rollback.isPending}>Cancelar</AlertDialogCancel>
+          <Button variant="destructive" onClick={() => rollback.mutate()} disabled={!token || rollback.isPending}>
+            {rollback.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Desfazer
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export { RollbackButton };
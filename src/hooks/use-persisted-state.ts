@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+
+// Form values are kept in localStorage so they survive reloads
+const STORAGE_KEY = "github-mirror-form";
+
+export function readPersisted<T>(key: string): T | undefined {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved)[key];
+  } catch {
+    // Unreadable storage: fall back to the defaults
+  }
+  return undefined;
+}
+
+export function usePersistedState<T>(key: string, initial: T) {
+  const [value, setValue] = useState<T>(() => readPersisted<T>(key) ?? initial);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      const current = saved ? JSON.parse(saved) : {};
+      current[key] = value;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    } catch {
+      // Storage full or disabled: the value just won't survive a reload
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
@@ -14,7 +14,69 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      mirror_jobs: {
+        Row: {
+          backup: Json | null
+          cancel_requested: boolean
+          checkpoint: Json
+          counts: Json
+          created_at: string
+          dest_url: string
+          error: string | null
+          events: Json
+          finished_at: string | null
+          id: string
+          options: Json
+          rolled_back_at: string | null
+          source_url: string
+          stage: string | null
+          started_at: string | null
+          status: string
+          touched_refs: number
+          updated_at: string
+        }
+        Insert: {
+          backup?: Json | null
+          cancel_requested?: boolean
+          checkpoint?: Json
+          counts?: Json
+          created_at?: string
+          dest_url: string
+          error?: string | null
+          events?: Json
+          finished_at?: string | null
+          id?: string
+          options?: Json
+          rolled_back_at?: string | null
+          source_url: string
+          stage?: string | null
+          started_at?: string | null
+          status?: string
+          touched_refs?: number
+          updated_at?: string
+        }
+        Update: {
+          backup?: Json | null
+          cancel_requested?: boolean
+          checkpoint?: Json
+          counts?: Json
+          created_at?: string
+          dest_url?: string
+          error?: string | null
+          events?: Json
+          finished_at?: string | null
+          id?: string
+          options?: Json
+          rolled_back_at?: string | null
+          source_url?: string
+          stage?: string | null
+          started_at?: string | null
+          status?: string
+          touched_refs?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
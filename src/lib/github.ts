@@ -1,4 +1,25 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import type {
+  MirrorEvent,
+  MirrorJobEvent,
+  MirrorLogEvent,
+  MirrorStage,
+} from "../../supabase/functions/_shared/mirror-events.ts";
+
+import type { RollbackResult } from "../../supabase/functions/_shared/mirror-jobs.ts";
+import type { BranchMapping, MirrorOptions } from "../../supabase/functions/_shared/mirror-options.ts";
+import type { MirrorPreflight } from "../../supabase/functions/_shared/mirror-preflight.ts";
+
+export type { MirrorJobEvent, MirrorLogEvent } from "../../supabase/functions/_shared/mirror-events.ts";
+export type { RollbackResult } from "../../supabase/functions/_shared/mirror-jobs.ts";
+export type {
+  BranchMapping,
+  DefaultBranchMode,
+  MirrorMode,
+  MirrorOptions,
+} from "../../supabase/functions/_shared/mirror-options.ts";
+export type { MirrorPreflight } from "../../supabase/functions/_shared/mirror-preflight.ts";
 
 export type LogEntry = {
   msg: string;
@@ -6,13 +27,136 @@ export type LogEntry = {
   time: string;
 };
 
-export type LogFn = (msg: string, type?: LogEntry["type"]) => void;
+// Thrown when the run was stopped on request; the job can still be resumed.
+export class MirrorCancelledError extends Error {}
+
+export type MirrorEventFn = (event: MirrorLogEvent | MirrorJobEvent) => void;
+
+// Rename rules typed one per line as "pattern => replacement"
+export function parseBranchRenameRules(text: string): BranchMapping["rules"] {
+  return text
+    .split("\n")
+    .map((line) => line.split("=>"))
+    .filter((parts) => parts.length === 2 && parts[0].trim())
+    .map(([pattern, replacement]) => ({ pattern: pattern.trim(), replacement: replacement.trim() }));
+}
+
+// Progress range (in %) covered by each stage; counters in the event interpolate within it.
+const STAGE_PROGRESS: Record<MirrorStage, [number, number]> = {
+  validate: [5, 10],
+  branches: [15, 15],
+  compare: [18, 18],
+  backup: [19, 19],
+  tree: [20, 20],
+  clean: [30, 30],
+  copy: [30, 80],
+  history: [20, 85],
+  commit: [85, 85],
+  branch: [90, 90],
+  prune: [92, 92],
+  verify: [93, 93],
+  tags: [95, 95],
+  releases: [97, 97],
+  done: [100, 100],
+  rollback: [100, 100],
+};
+
+export function mirrorProgress(event: MirrorLogEvent): number {
+  const [start, end] = STAGE_PROGRESS[event.stage];
+  const done = event.filesDone ?? event.commitsDone;
+  const total = event.filesTotal ?? event.commitsTotal;
+  if (done === undefined || !total) return start;
+  return start + Math.round(((end - start) * done) / total);
+}
+
+// Reads the Server-Sent Events stream returned by the edge function, yielding events as they arrive.
+async function* readEvents(response: Response): AsyncGenerator<MirrorEvent> {
+  if (!response.body) throw new Error("Resposta do servidor sem conteúdo");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) yield JSON.parse(data);
+    }
+  }
+}
 
-function parseIcon(msg: string): LogEntry["type"] {
-  if (msg.startsWith("✅")) return "success";
-  if (msg.startsWith("⚠️")) return "warn";
-  if (msg.startsWith("❌")) return "error";
-  return "info";
+// Requests rejected by the function carry the reason in a JSON body
+async function invokeErrorMessage(error: Error, fallback: string): Promise<string> {
+  const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+  return details?.error || error.message || fallback;
+}
+
+// Dry run: reports what a mirror would change without writing to the destination.
+export async function preflightMirror(
+  sourceUrl: string,
+  destUrl: string,
+  sourceToken: string,
+  destToken: string,
+  options: MirrorOptions
+): Promise<MirrorPreflight> {
+  const { data, error } = await supabase.functions.invoke("github-mirror", {
+    body: { action: "preflight", sourceUrl, destUrl, sourceToken, destToken, options },
+  });
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao analisar os repositórios"));
+  return data.report;
+}
+
+export type SourceBranches = { defaultBranch: string; branches: string[] };
+
+export async function listSourceBranches(sourceUrl: string, sourceToken: string): Promise<SourceBranches> {
+  const { data, error } = await supabase.functions.invoke("github-mirror", {
+    body: { action: "branches", sourceUrl, sourceToken },
+  });
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao listar os branches da origem"));
+  return data;
+}
+
+// Puts the destination refs a job wrote back where they were before the mirror.
+export async function rollbackMirror(jobId: string, destToken: string): Promise<RollbackResult> {
+  const { data, error } = await supabase.functions.invoke("github-mirror", {
+    body: { action: "rollback", jobId, destToken },
+  });
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao desfazer o mirror"));
+  return data;
+}
+
+export type StoredMirrorEvent = MirrorEvent & { at: string };
+
+// A job's recorded log, handed out only for a token that can push to the job's destination.
+export async function fetchJobEvents(jobId: string, destToken: string): Promise<StoredMirrorEvent[]> {
+  const { data, error } = await supabase.functions.invoke("github-mirror", {
+    body: { action: "logs", jobId, destToken },
+  });
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao carregar o log do job"));
+  return data.events;
+}
+
+// Restarts a failed or interrupted job from its last checkpoint with the options it was
+// created with. Resolves once the job is queued; it then runs on the server unattended.
+export async function resumeMirror(
+  jobId: string,
+  sourceUrl: string,
+  destUrl: string,
+  sourceToken: string,
+  destToken: string
+): Promise<void> {
+  const { data, error } = await supabase.functions.invoke("github-mirror", {
+    body: { sourceUrl, destUrl, sourceToken, destToken, resumeJobId: jobId },
+  });
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao retomar o mirror"));
+  await (data as Response).body?.cancel();
 }
 
 export async function mirrorRepo(
@@ -20,25 +164,51 @@ export async function mirrorRepo(
   destUrl: string,
   sourceToken: string,
   destToken: string,
-  log: LogFn
+  options: MirrorOptions,
+  onEvent: MirrorEventFn,
+  // Continue a failed job from its last checkpoint instead of starting over
+  resumeJobId?: string,
+  // Aborting asks the server to stop; the stream stays open to report where it stopped
+  signal?: AbortSignal
 ): Promise<void> {
-  log("Iniciando mirror via servidor...", "info");
+  const message = resumeJobId ? "Retomando mirror via servidor..." : "Iniciando mirror via servidor...";
+  onEvent({ type: "log", stage: "validate", level: "info", message });
 
   const { data, error } = await supabase.functions.invoke("github-mirror", {
-    body: { sourceUrl, destUrl, sourceToken, destToken },
+    body: { sourceUrl, destUrl, sourceToken, destToken, options, resumeJobId },
   });
 
-  if (error) {
-    throw new Error(error.message || "Erro ao chamar a função de mirror");
-  }
+  if (error) throw new Error(await invokeErrorMessage(error, "Erro ao chamar a função de mirror"));
 
-  if (!data.success) {
-    throw new Error(data.error || "Erro desconhecido no servidor");
-  }
+  let jobId: string | null = null;
+  const cancel = () => {
+    if (!jobId) return; // Sent as soon as the job id arrives
+    onEvent({ type: "log", stage: "validate", level: "warn", message: "⏹️ Cancelando... aguardando um ponto seguro" });
+    // The server only accepts a cancel with a token that can push to the destination
+    supabase.functions.invoke("github-mirror", { body: { action: "cancel", jobId, destToken } }).then(async ({ error }) => {
+      if (!error) return;
+      const message = `Erro ao cancelar: ${await invokeErrorMessage(error, "erro desconhecido")}`;
+      onEvent({ type: "log", stage: "validate", level: "error", message });
+    });
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
 
-  // Replay server logs
-  for (const logMsg of data.logs || []) {
-    const type = parseIcon(logMsg);
-    log(logMsg, type);
+  try {
+    // Server logs are streamed live while the mirror runs
+    for await (const event of readEvents(data as Response)) {
+      if (event.type === "job") {
+        jobId = event.jobId;
+        onEvent(event);
+        if (signal?.aborted) cancel();
+      } else if (event.type === "log") onEvent(event);
+      else if (event.type === "error") {
+        if (event.code === "cancelled") throw new MirrorCancelledError(event.message);
+        throw new Error(event.message || "Erro desconhecido no servidor");
+      } else if (event.type === "done") return;
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
   }
+
+  throw new Error("Conexão com o servidor encerrada antes do fim do mirror");
 }
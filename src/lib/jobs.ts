@@ -0,0 +1,100 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { LogEntry, StoredMirrorEvent } from "@/lib/github";
+import type { MirrorStage } from "../../supabase/functions/_shared/mirror-events.ts";
+import {
+  isJobStale,
+  type JobCounts,
+  type JobStatus,
+  type MirrorBackup,
+} from "../../supabase/functions/_shared/mirror-jobs.ts";
+
+export type { JobCounts, JobStatus, MirrorBackup } from "../../supabase/functions/_shared/mirror-jobs.ts";
+
+export type MirrorJobSummary = {
+  id: string;
+  sourceUrl: string;
+  destUrl: string;
+  status: JobStatus;
+  stage: MirrorStage | null;
+  error: string | null;
+  counts: JobCounts;
+  backup: MirrorBackup | null;
+  // Destination refs the job wrote, i.e. what a rollback would undo
+  touchedRefs: number;
+  rolledBackAt: string | null;
+  // Listed as failed: the job was left queued or running by a worker that was stopped
+  interrupted: boolean;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+// The columns readable with the anon key; the log is fetched per job through the function
+const SUMMARY_COLUMNS =
+  "id, source_url, dest_url, status, stage, error, counts, backup, touched_refs, rolled_back_at, created_at, updated_at, started_at, finished_at";
+
+export async function listJobs(limit = 50): Promise<MirrorJobSummary[]> {
+  const { data, error } = await supabase
+    .from("mirror_jobs")
+    .select(SUMMARY_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  return data.map((row) => {
+    const interrupted = isJobStale(row.status, row.updated_at);
+    return {
+      id: row.id,
+      sourceUrl: row.source_url,
+      destUrl: row.dest_url,
+      status: interrupted ? "failed" : (row.status as JobStatus),
+      stage: row.stage as MirrorStage | null,
+      error: interrupted ? "O processamento foi interrompido antes do fim" : row.error,
+      counts: (row.counts ?? {}) as JobCounts,
+      backup: row.backup as MirrorBackup | null,
+      touchedRefs: row.touched_refs,
+      rolledBackAt: row.rolled_back_at,
+      interrupted,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+    };
+  });
+}
+
+export function canRollback(job: MirrorJobSummary) {
+  return !isJobActive(job) && !job.rolledBackAt && job.touchedRefs > 0;
+}
+
+export function isJobActive(job: MirrorJobSummary) {
+  return job.status === "queued" || job.status === "running";
+}
+
+// Failed, interrupted and cancelled jobs continue from their last checkpoint
+export function canResume(job: MirrorJobSummary) {
+  return (job.status === "failed" || job.status === "cancelled") && !job.rolledBackAt;
+}
+
+// Stored events rendered the same way as the live terminal
+export function jobLogs(events: StoredMirrorEvent[]): LogEntry[] {
+  return events.flatMap((event): LogEntry[] => {
+    const time = new Date(event.at).toLocaleTimeString("pt-BR");
+    if (event.type === "log") return [{ msg: event.message, type: event.level, time }];
+    if (event.type === "error") return [{ msg: event.message, type: "error", time }];
+    return [];
+  });
+}
+
+// Elapsed time of a job, still counting while it runs
+export function jobDuration(job: MirrorJobSummary, now = Date.now()): string | null {
+  if (!job.startedAt) return null;
+  const end = job.finishedAt ? Date.parse(job.finishedAt) : job.interrupted ? Date.parse(job.updatedAt) : now;
+  const seconds = Math.max(0, Math.round((end - Date.parse(job.startedAt)) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  if (minutes === 0) return `${seconds}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}min ${seconds % 60}s`;
+  return `${hours}h ${minutes % 60}min`;
+}
@@ -1,38 +1,23 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef } from "react";
+import { Link } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { mirrorRepo, type LogEntry } from "@/lib/github";
-import { GitBranch, Copy, AlertTriangle, CheckCircle, Info, XCircle, Loader2, Eye, EyeOff } from "lucide-react";
-
-const STORAGE_KEY = "github-mirror-form";
-
-function usePersistedState(key: string, initial: string) {
-  const [value, setValue] = useState(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return parsed[key] ?? initial;
-      }
-    } catch {}
-    return initial;
-  });
-
-  useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      const current = saved ? JSON.parse(saved) : {};
-      current[key] = value;
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
-    } catch {}
-  }, [key, value]);
-
-  return [value, setValue] as const;
-}
+import { LogTerminal } from "@/components/LogTerminal";
+import { usePersistedState } from "@/hooks/use-persisted-state";
+import { PreflightReport } from "@/components/PreflightReport";
+import { BranchPicker } from "@/components/BranchPicker";
+import { RollbackButton } from "@/components/RollbackButton";
+import { parseBranchPatterns } from "../../supabase/functions/_shared/branch-patterns.ts";
+import { MirrorCancelledError, mirrorProgress, mirrorRepo, parseBranchRenameRules, preflightMirror, type LogEntry, type RollbackResult, type DefaultBranchMode, type MirrorMode, type MirrorOptions } from "@/lib/github";
+import { GitBranch, Copy, AlertTriangle, CheckCircle, Info, XCircle, Loader2, Eye, EyeOff, RotateCw, History, Square } from "lucide-react";
 
 const LogIcon = ({ type }: { type: LogEntry["type"] }) => {
   switch (type) {
@@ -48,48 +33,116 @@ const Index = () => {
   const [destUrl, setDestUrl] = usePersistedState("destUrl", "");
   const [sourceToken, setSourceToken] = usePersistedState("sourceToken", "");
   const [destToken, setDestToken] = usePersistedState("destToken", "");
+  const [mode, setMode] = usePersistedState<MirrorMode>("mode", "snapshot");
+  const [branchPatterns, setBranchPatterns] = usePersistedState("branchPatterns", "");
+  const [pruneTags, setPruneTags] = usePersistedState("pruneTags", false);
+  const [pruneBranches, setPruneBranches] = usePersistedState("pruneBranches", false);
+  const [pruneBranchesExclude, setPruneBranchesExclude] = usePersistedState("pruneBranchesExclude", "");
+  const [releases, setReleases] = usePersistedState("releases", false);
+  const [incremental, setIncremental] = usePersistedState("incremental", false);
+  const [allowIncompleteTree, setAllowIncompleteTree] = usePersistedState("allowIncompleteTree", false);
+  const [sourcePath, setSourcePath] = usePersistedState("sourcePath", "");
+  const [destinationPath, setDestinationPath] = usePersistedState("destinationPath", "");
+  const [pathRules, setPathRules] = usePersistedState("pathRules", "");
+  const [branchPrefix, setBranchPrefix] = usePersistedState("branchPrefix", "");
+  const [branchSuffix, setBranchSuffix] = usePersistedState("branchSuffix", "");
+  const [branchRenameRules, setBranchRenameRules] = usePersistedState("branchRenameRules", "");
+  const [defaultBranch, setDefaultBranch] = usePersistedState<DefaultBranchMode>("defaultBranch", "keep");
+  const [createDestination, setCreateDestination] = usePersistedState("createDestination", false);
+  const [destinationVisibility, setDestinationVisibility] = usePersistedState<MirrorOptions["destinationVisibility"]>("destinationVisibility", "private");
   const [showSourceToken, setShowSourceToken] = useState(false);
   const [showDestToken, setShowDestToken] = useState(false);
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const logsEndRef = useRef<HTMLDivElement>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const preflight = useMutation({
+    mutationFn: (options: MirrorOptions) => preflightMirror(sourceUrl, destUrl, sourceToken, destToken, options),
+  });
 
   const addLog = useCallback((msg: string, type: LogEntry["type"] = "info") => {
     const time = new Date().toLocaleTimeString("pt-BR");
     setLogs((prev) => [...prev, { msg, type, time }]);
-    setTimeout(() => logsEndRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
   }, []);
 
-  const handleClone = async () => {
-    setLogs([]);
+  const options: MirrorOptions = {
+    mode,
+    branchPatterns: parseBranchPatterns(branchPatterns),
+    branchMapping: { prefix: branchPrefix, suffix: branchSuffix, rules: parseBranchRenameRules(branchRenameRules) },
+    // An import leaves the destination's own tags, branches and releases alone
+    pruneTags: pruneTags && !destinationPath,
+    pruneBranches: pruneBranches && !destinationPath,
+    pruneBranchesExclude: pruneBranchesExclude.split(",").map((name) => name.trim()).filter(Boolean),
+    releases: releases && !destinationPath,
+    incremental,
+    allowIncompleteTree,
+    sourcePath,
+    destinationPath,
+    pathRules: pathRules.split("\n").map((line) => line.trim()).filter(Boolean),
+    defaultBranch: destinationPath ? "keep" : defaultBranch,
+    createDestination,
+    destinationVisibility,
+  };
+
+  // The confirmation dialog runs a dry run every time it opens
+  const handleConfirmOpen = (open: boolean) => {
+    setConfirmOpen(open);
+    if (open) preflight.mutate(options);
+    else preflight.reset();
+  };
+
+  const handleClone = async (resumeJobId?: string) => {
+    if (!resumeJobId) {
+      setLogs([]);
+      setJobId(null);
+    }
+    setFailed(false);
+    setCancelling(false);
     setLoading(true);
     setProgress(0);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      await mirrorRepo(sourceUrl, destUrl, sourceToken, destToken, (msg, type) => {
-        addLog(msg, type);
-        // Estimate progress from log messages
-        if (msg.includes("Validando repositório de origem")) setProgress(5);
-        else if (msg.includes("Validando repositório de destino")) setProgress(10);
-        else if (msg.includes("Obtendo branches")) setProgress(15);
-        else if (msg.includes("Obtendo árvore")) setProgress(20);
-        else if (msg.includes("Limpando")) setProgress(30);
-        else if (msg.includes("arquivos copiados")) {
-          const match = msg.match(/(\d+)\/(\d+)/);
-          if (match) setProgress(30 + Math.round((parseInt(match[1]) / parseInt(match[2])) * 50));
+      await mirrorRepo(sourceUrl, destUrl, sourceToken, destToken, options, (event) => {
+        if (event.type === "job") {
+          setJobId(event.jobId);
+          return;
         }
-        else if (msg.includes("Criando árvore")) setProgress(85);
-        else if (msg.includes("branches adicionais")) setProgress(90);
-        else if (msg.includes("concluído")) setProgress(100);
-      });
+        addLog(event.message, event.level);
+        const next = mirrorProgress(event);
+        setProgress((prev) => Math.max(prev, next));
+      }, resumeJobId, controller.signal);
     } catch (err: any) {
-      addLog(err.message || "Erro desconhecido", "error");
+      addLog(err.message || "Erro desconhecido", err instanceof MirrorCancelledError ? "warn" : "error");
+      setFailed(true);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
-  const isValid = sourceUrl.includes("github.com/") && destUrl.includes("github.com/") && sourceToken.length > 0 && destToken.length > 0;
+  const handleRolledBack = (result: RollbackResult) => {
+    const counts = `${result.restored.length} ref(s) restaurada(s), ${result.deleted.length} removida(s)`;
+    if (result.failed.length > 0) {
+      addLog(`⚠️ Mirror desfeito em parte: ${counts}; tente desfazer de novo`, "warn");
+      for (const failure of result.failed) addLog(`❌ Não foi possível desfazer ${failure}`, "error");
+      return; // The job can still be rolled back
+    }
+    addLog(`↩️ Mirror desfeito: ${counts}`, "success");
+    setJobId(null);
+    setFailed(false);
+  };
+
+  const handleCancel = () => {
+    setCancelling(true);
+    abortRef.current?.abort();
+  };
+
+  const isValid = sourceUrl.includes("github.com/") && destUrl.includes("github.com/") && sourceToken.length > 0 && destToken.length > 0 && !(destinationPath && mode === "history");
 
   return (
     <div className="min-h-screen bg-background py-8 px-4">
@@ -105,6 +158,12 @@ const Index = () => {
           <p className="text-muted-foreground max-w-lg mx-auto">
             Copie todos os arquivos e branches de um repositório GitHub público para outro — 100% online, sem baixar nada.
           </p>
+          <Button variant="link" size="sm" asChild>
+            <Link to="/jobs">
+              <History className="h-4 w-4 mr-1" />
+              Histórico de mirrors
+            </Link>
+          </Button>
         </div>
 
         <Card>
@@ -149,6 +208,24 @@ const Index = () => {
                   </button>
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-path">Subdiretório (opcional)</Label>
+                <Input
+                  id="source-path"
+                  placeholder="packages/meu-pacote — só ele é copiado, para a raiz do destino"
+                  value={sourcePath}
+                  onChange={(e) => setSourcePath(e.target.value)}
+                  disabled={loading}
+                  className="font-mono"
+                />
+              </div>
+              <BranchPicker
+                sourceUrl={sourceUrl}
+                sourceToken={sourceToken}
+                patterns={branchPatterns}
+                onPatternsChange={setBranchPatterns}
+                disabled={loading}
+              />
             </div>
 
             <div className="border-t" />
@@ -187,17 +264,203 @@ const Index = () => {
                   </button>
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="destination-path">Importar em um subdiretório (opcional)</Label>
+                <Input
+                  id="destination-path"
+                  placeholder="third_party/nome — o resto do destino é mantido"
+                  value={destinationPath}
+                  onChange={(e) => setDestinationPath(e.target.value)}
+                  disabled={loading}
+                  className="font-mono"
+                />
+                {destinationPath && mode === "history" && (
+                  <p className="text-xs text-destructive">A importação em um subdiretório não está disponível no modo histórico completo.</p>
+                )}
+                {destinationPath && (
+                  <p className="text-xs text-muted-foreground">
+                    As tags e releases da origem não são copiadas, e nenhum branch ou tag do destino é removido ou
+                    renomeado; o branch padrão do destino continua o mesmo.
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="create-destination" className="font-normal">
+                  Criar o repositório se ele não existir (descrição e tópicos copiados da origem)
+                </Label>
+                <Switch id="create-destination" checked={createDestination} onCheckedChange={setCreateDestination} disabled={loading} />
+              </div>
+              {createDestination && (
+                <RadioGroup
+                  value={destinationVisibility}
+                  onValueChange={(value) => setDestinationVisibility(value as MirrorOptions["destinationVisibility"])}
+                  disabled={loading}
+                  className="flex gap-6"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="private" id="visibility-private" />
+                    <Label htmlFor="visibility-private" className="font-normal">Privado</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="public" id="visibility-public" />
+                    <Label htmlFor="visibility-public" className="font-normal">Público</Label>
+                  </div>
+                </RadioGroup>
+              )}
+              <div className="space-y-2">
+                <Label>Se o branch padrão tiver outro nome na origem</Label>
+                <RadioGroup
+                  value={options.defaultBranch}
+                  onValueChange={(value) => setDefaultBranch(value as DefaultBranchMode)}
+                  disabled={loading || Boolean(destinationPath)}
+                  className="gap-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="keep" id="default-branch-keep" />
+                    <Label htmlFor="default-branch-keep" className="font-normal">Copiar para o branch padrão atual do destino</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="rename" id="default-branch-rename" />
+                    <Label htmlFor="default-branch-rename" className="font-normal">Renomear o branch padrão do destino como na origem</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="switch" id="default-branch-switch" />
+                    <Label htmlFor="default-branch-switch" className="font-normal">Tornar padrão o branch com o nome da origem, mantendo o atual</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="branch-prefix">Nomes dos branches no destino</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    id="branch-prefix"
+                    placeholder="Prefixo (ex.: upstream/)"
+                    value={branchPrefix}
+                    onChange={(e) => setBranchPrefix(e.target.value)}
+                    disabled={loading}
+                    className="font-mono"
+                  />
+                  <Input
+                    id="branch-suffix"
+                    placeholder="Sufixo"
+                    value={branchSuffix}
+                    onChange={(e) => setBranchSuffix(e.target.value)}
+                    disabled={loading}
+                    className="font-mono"
+                  />
+                </div>
+                <Textarea
+                  id="branch-rename-rules"
+                  placeholder={"Regras de renomeação, uma por linha:\n^release-(.*)$ => releases/$1"}
+                  value={branchRenameRules}
+                  onChange={(e) => setBranchRenameRules(e.target.value)}
+                  disabled={loading}
+                  rows={2}
+                  className="font-mono text-xs"
+                />
+              </div>
+            </div>
+
+            <div className="border-t" />
+
+            {/* Mode */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Modo</h3>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as MirrorMode)} disabled={loading} className="gap-3">
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="snapshot" id="mode-snapshot" className="mt-0.5" />
+                  <Label htmlFor="mode-snapshot" className="font-normal leading-snug">
+                    <span className="font-medium">Snapshot</span>
+                    <span className="block text-muted-foreground">Copia apenas o estado atual de cada branch em um único commit.</span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="sync" id="mode-sync" className="mt-0.5" />
+                  <Label htmlFor="mode-sync" className="font-normal leading-snug">
+                    <span className="font-medium">Sincronizar</span>
+                    <span className="block text-muted-foreground">Mantém o histórico do destino e adiciona um único commit com as diferenças da origem.</span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="history" id="mode-history" className="mt-0.5" disabled={Boolean(destinationPath)} />
+                  <Label htmlFor="mode-history" className="font-normal leading-snug">
+                    <span className="font-medium">Histórico completo</span>
+                    <span className="block text-muted-foreground">Recria todos os commits com autor, data e mensagem originais. Mais lento.</span>
+                  </Label>
+                </div>
+              </RadioGroup>
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="incremental" className="font-normal">
+                  Incremental: transferir apenas arquivos que o destino ainda não tem
+                </Label>
+                <Switch id="incremental" checked={incremental} onCheckedChange={setIncremental} disabled={loading} />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="prune-tags" className="font-normal">
+                  Remover do destino as tags que não existem mais na origem
+                </Label>
+                <Switch id="prune-tags" checked={options.pruneTags} onCheckedChange={setPruneTags} disabled={loading || Boolean(destinationPath)} />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="prune-branches" className="font-normal">
+                  Remover do destino os branches que não existem mais na origem
+                </Label>
+                <Switch id="prune-branches" checked={options.pruneBranches} onCheckedChange={setPruneBranches} disabled={loading || Boolean(destinationPath)} />
+              </div>
+              {options.pruneBranches && (
+                <Input
+                  id="prune-branches-exclude"
+                  placeholder="Branches que nunca devem ser removidos, separados por vírgula (ex.: gh-pages, release)"
+                  value={pruneBranchesExclude}
+                  onChange={(e) => setPruneBranchesExclude(e.target.value)}
+                  disabled={loading}
+                />
+              )}
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="releases" className="font-normal">
+                  Copiar releases (notas e arquivos anexados)
+                </Label>
+                <Switch id="releases" checked={options.releases} onCheckedChange={setReleases} disabled={loading || Boolean(destinationPath)} />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="allow-incomplete-tree" className="font-normal">
+                  Continuar mesmo se parte da árvore da origem não puder ser lida
+                </Label>
+                <Switch id="allow-incomplete-tree" checked={allowIncompleteTree} onCheckedChange={setAllowIncompleteTree} disabled={loading} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="path-rules" className="font-normal">
+                  Arquivos a excluir, no formato do .gitignore (somados ao .mirrorignore da origem)
+                </Label>
+                <Textarea
+                  id="path-rules"
+                  placeholder={"secrets/\ninternal-docs/\nassets/**/*.psd\n!assets/logo.png"}
+                  value={pathRules}
+                  onChange={(e) => setPathRules(e.target.value)}
+                  disabled={loading}
+                  rows={3}
+                  className="font-mono text-xs"
+                />
+              </div>
             </div>
 
             {/* Warning */}
             <div className="rounded-lg border border-yellow-300/50 bg-yellow-50 dark:bg-yellow-900/10 dark:border-yellow-700/30 p-3 flex gap-3">
               <AlertTriangle className="h-5 w-5 text-yellow-600 dark:text-yellow-400 shrink-0 mt-0.5" />
               <div className="text-sm text-yellow-800 dark:text-yellow-300">
-                <strong>Atenção:</strong> Todo o conteúdo do repositório de destino será substituído permanentemente. Esta ação não pode ser desfeita.
+                <strong>Atenção:</strong>{" "}
+                {destinationPath ? (
+                  <>O diretório <code className="text-xs">{destinationPath}/</code> dos branches do destino será substituído; o resto do destino é mantido.</>
+                ) : mode === "sync" ? (
+                  <>O conteúdo dos branches do destino será substituído pelo da origem; o histórico do destino é mantido.</>
+                ) : (
+                  <>Todo o conteúdo do repositório de destino será substituído.</>
+                )}{" "}
+                Os branches e tags atuais do destino são salvos antes em <code className="text-xs">refs/mirror-backup/</code>.
               </div>
             </div>
 
-            <AlertDialog>
+            <AlertDialog open={confirmOpen} onOpenChange={handleConfirmOpen}>
               <AlertDialogTrigger asChild>
                 <Button className="w-full" size="lg" disabled={!isValid || loading}>
                   {loading ? (
@@ -213,22 +476,63 @@ const Index = () => {
                   )}
                 </Button>
               </AlertDialogTrigger>
-              <AlertDialogContent>
+              <AlertDialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
                 <AlertDialogHeader>
                   <AlertDialogTitle>Confirmar operação de mirror</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Todo o conteúdo do repositório de destino será <strong>apagado permanentemente</strong> e substituído pelo conteúdo da origem, incluindo todos os branches. Tem certeza?
+                    {destinationPath ? (
+                      <>Em cada branch do destino, apenas o diretório <code className="text-xs">{destinationPath}/</code> será substituído pelo conteúdo da origem, em um novo commit. Os demais arquivos são mantidos.</>
+                    ) : mode === "sync" ? (
+                      <>O conteúdo dos branches do destino será substituído pelo da origem em um novo commit, mantendo o histórico existente.</>
+                    ) : (
+                      <>Todo o conteúdo do repositório de destino será <strong>apagado permanentemente</strong> e substituído pelo conteúdo da origem, incluindo todos os branches.</>
+                    )}{" "}
+                    Revise a simulação abaixo antes de continuar.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
+                {preflight.isPending && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Analisando origem e destino (nada será alterado)...
+                  </div>
+                )}
+                {preflight.error && (
+                  <div className="flex items-center justify-between gap-3 text-sm text-destructive">
+                    <span>Não foi possível simular o mirror: {preflight.error.message}</span>
+                    <Button variant="outline" size="sm" onClick={() => preflight.mutate(options)}>
+                      <RotateCw className="h-4 w-4 mr-1" />
+                      Tentar de novo
+                    </Button>
+                  </div>
+                )}
+                {preflight.data && <PreflightReport report={preflight.data} />}
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                  <AlertDialogAction onClick={handleClone}>
+                  <AlertDialogAction onClick={() => handleClone()} disabled={!preflight.data}>
                     Sim, continuar
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
 
+            {loading && (
+              <Button variant="outline" className="w-full" onClick={handleCancel} disabled={cancelling}>
+                {cancelling ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Square className="h-4 w-4 mr-2" />}
+                {cancelling ? "Cancelando..." : "Cancelar mirror"}
+              </Button>
+            )}
+
+            {failed && jobId && !loading && (
+              <Button variant="outline" className="w-full" onClick={() => handleClone(jobId)} disabled={!isValid}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                Retomar do último checkpoint
+              </Button>
+            )}
+
+            {jobId && !loading && (
+              <RollbackButton jobId={jobId} destUrl={destUrl} destToken={destToken} onDone={handleRolledBack} className="w-full" />
+            )}
+
             {/* Progress bar */}
             {loading && (
               <div className="space-y-2">
@@ -243,43 +547,7 @@ const Index = () => {
         </Card>
 
         {/* Terminal */}
-        {logs.length > 0 && (
-          <Card className="border-border/50 bg-[hsl(220,13%,10%)] text-[hsl(120,100%,90%)]">
-            <CardHeader className="pb-2 pt-3 px-4">
-              <div className="flex items-center gap-2">
-                <div className="flex gap-1.5">
-                  <span className="h-3 w-3 rounded-full bg-[hsl(0,70%,55%)]" />
-                  <span className="h-3 w-3 rounded-full bg-[hsl(45,80%,55%)]" />
-                  <span className="h-3 w-3 rounded-full bg-[hsl(120,50%,50%)]" />
-                </div>
-                <span className="text-xs font-mono text-[hsl(220,10%,55%)]">github-mirror — terminal</span>
-              </div>
-            </CardHeader>
-            <CardContent className="px-4 pb-4 pt-0">
-              <div className="max-h-80 overflow-y-auto space-y-1 font-mono text-xs leading-relaxed">
-                {logs.map((log, i) => (
-                  <div key={i} className="flex items-start gap-2">
-                    <span className="text-[hsl(220,10%,45%)] shrink-0">{log.time}</span>
-                    <span className={
-                      log.type === "error" ? "text-[hsl(0,80%,65%)]" :
-                      log.type === "success" ? "text-[hsl(120,60%,65%)]" :
-                      log.type === "warn" ? "text-[hsl(45,80%,65%)]" :
-                      "text-[hsl(220,10%,75%)]"
-                    }>
-                      {log.msg}
-                    </span>
-                  </div>
-                ))}
-                <div ref={logsEndRef} />
-                {loading && (
-                  <div className="flex items-center gap-1 text-[hsl(120,60%,65%)]">
-                    <span className="animate-pulse">▌</span>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+        {logs.length > 0 && <LogTerminal logs={logs} running={loading} />}
 
         {/* How it works */}
         <Card className="border-primary/20 bg-accent/30">
@@ -289,11 +557,26 @@ const Index = () => {
               <div className="text-sm space-y-2 text-muted-foreground">
                 <p><strong className="text-foreground">Como funciona:</strong></p>
                 <ol className="list-decimal list-inside space-y-1">
-                  <li>Valida que ambos os repositórios são públicos e os tokens são válidos</li>
-                  <li>Apaga todo o conteúdo do repositório de destino</li>
-                  <li>Copia todos os arquivos do branch padrão da origem</li>
+                  <li>
+                    Valida o acesso aos dois repositórios com os tokens
+                    {createDestination && ` e cria o destino (${destinationVisibility === "private" ? "privado" : "público"}) se ele não existir`}
+                  </li>
+                  <li>Salva um backup dos branches e tags atuais do destino</li>
+                  {destinationPath ? (
+                    <li>Substitui o diretório <code className="text-xs">{destinationPath}/</code> pelos arquivos da origem, mantendo o resto do destino</li>
+                  ) : mode === "sync" ? (
+                    <li>Adiciona um commit com os arquivos da origem sobre o histórico do destino</li>
+                  ) : mode === "history" ? (
+                    <li>Recria no destino os commits da origem, com autores e datas originais</li>
+                  ) : (
+                    <>
+                      <li>Apaga todo o conteúdo do repositório de destino</li>
+                      <li>Copia todos os arquivos do branch padrão da origem</li>
+                    </>
+                  )}
                   <li>Copia os branches adicionais da origem para o destino</li>
-                  <li>O repositório de destino permanece público</li>
+                  {!destinationPath && <li>Copia as tags{releases && " e releases"} da origem</li>}
+                  <li>A visibilidade de um destino que já existe não é alterada</li>
                 </ol>
                 <p className="text-xs mt-2">Os tokens são processados apenas no servidor e nunca são armazenados.</p>
               </div>
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { LogTerminal } from "@/components/LogTerminal";
+import { ResumeButton } from "@/components/ResumeButton";
+import { RollbackButton } from "@/components/RollbackButton";
+import { readPersisted } from "@/hooks/use-persisted-state";
+import { toast } from "@/hooks/use-toast";
+import { fetchJobEvents } from "@/lib/github";
+import {
+  canResume,
+  canRollback,
+  isJobActive,
+  jobDuration,
+  jobLogs,
+  listJobs,
+  type JobStatus,
+  type MirrorJobSummary,
+} from "@/lib/jobs";
+import { ArrowLeft, ArrowRight, ChevronDown, History, Loader2 } from "lucide-react";
+
+const STATUS_LABEL: Record<JobStatus, string> = {
+  queued: "Na fila",
+  running: "Em execução",
+  failed: "Falhou",
+  completed: "Concluído",
+  cancelled: "Cancelado",
+};
+
+const STATUS_VARIANT: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  failed: "destructive",
+  completed: "default",
+  cancelled: "outline",
+};
+
+const repoName = (url: string) => url.replace(/^https?:\/\/github\.com\//, "").replace(/\.git$/, "");
+
+function countsSummary(job: MirrorJobSummary): string {
+  const { files, commits, branches, tags, releases } = job.counts;
+  return [
+    files !== undefined && `${files} arquivo(s)`,
+    commits && `${commits} commit(s)`,
+    branches !== undefined && `${branches} branch(es)`,
+    tags !== undefined && `${tags} tag(s)`,
+    releases !== undefined && `${releases} release(s)`,
+  ].filter(Boolean).join(", ");
+}
+
+// The tokens saved on the mirror form, when they belong to this job's repositories
+function savedSourceToken(job: MirrorJobSummary) {
+  return readPersisted<string>("sourceUrl") === job.sourceUrl ? readPersisted<string>("sourceToken") : undefined;
+}
+
+function savedDestToken(job: MirrorJobSummary) {
+  return readPersisted<string>("destUrl") === job.destUrl ? readPersisted<string>("destToken") : undefined;
+}
+
+// The log is only served for a token that can push to the job's destination
+const JobLog = ({ job }: { job: MirrorJobSummary }) => {
+  const [token, setToken] = useState(savedDestToken(job) ?? "");
+  const [submitted, setSubmitted] = useState(savedDestToken(job));
+  const active = isJobActive(job);
+  const { data, error, isFetching } = useQuery({
+    queryKey: ["mirror-job-events", job.id, submitted],
+    queryFn: () => fetchJobEvents(job.id, submitted!),
+    enabled: Boolean(submitted),
+    retry: false,
+    refetchInterval: active ? 3000 : false,
+  });
+
+  if (data) return <LogTerminal logs={jobLogs(data)} running={active} />;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          type="password"
+          placeholder="Token do destino (PAT)"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          disabled={isFetching}
+        />
+        <Button variant="outline" size="sm" onClick={() => setSubmitted(token)} disabled={!token || isFetching}>
+          {isFetching && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Ver log
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error.message}</p>}
+    </div>
+  );
+};
+
+const JobRow = ({ job }: { job: MirrorJobSummary }) => {
+  const queryClient = useQueryClient();
+  const duration = jobDuration(job);
+  const counts = countsSummary(job);
+  const active = isJobActive(job);
+
+  return (
+    <Collapsible className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2 font-mono text-sm">
+            <span className="truncate">{repoName(job.sourceUrl)}</span>
+            <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+            <span className="truncate">{repoName(job.destUrl)}</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(job.createdAt).toLocaleString("pt-BR")}
+            {duration && ` · ${duration}`}
+            {active && job.stage && ` · etapa: ${job.stage}`}
+          </div>
+          {counts && <div className="text-xs text-muted-foreground">{counts}</div>}
+          {job.backup && (
+            <div className="text-xs text-muted-foreground">
+              Backup: <span className="font-mono">{job.backup.namespace}</span> ({job.backup.refs.length} ref(s))
+            </div>
+          )}
+          {job.error && <div className="text-xs text-destructive">{job.error}</div>}
+          {job.rolledBackAt && (
+            <div className="text-xs text-muted-foreground">
+              Desfeito em {new Date(job.rolledBackAt).toLocaleString("pt-BR")}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Badge variant={STATUS_VARIANT[job.status]}>
+            {active && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {job.interrupted ? "Interrompido" : STATUS_LABEL[job.status]}
+          </Badge>
+          {canResume(job) && (
+            <ResumeButton
+              jobId={job.id}
+              sourceUrl={job.sourceUrl}
+              destUrl={job.destUrl}
+              sourceToken={savedSourceToken(job)}
+              destToken={savedDestToken(job)}
+              onDone={() => {
+                toast({ title: "Mirror retomado", description: "O job continua do último checkpoint no servidor" });
+                queryClient.invalidateQueries({ queryKey: ["mirror-jobs"] });
+              }}
+            />
+          )}
+          {canRollback(job) && (
+            <RollbackButton
+              jobId={job.id}
+              destUrl={job.destUrl}
+              destToken={savedDestToken(job)}
+              onDone={(result) => {
+                toast({
+                  title: result.failed.length > 0 ? "Mirror desfeito em parte" : "Mirror desfeito",
+                  description: `${result.restored.length} ref(s) restaurada(s), ${result.deleted.length} removida(s)`,
+                  variant: result.failed.length > 0 ? "destructive" : "default",
+                });
+                queryClient.invalidateQueries({ queryKey: ["mirror-jobs"] });
+              }}
+            />
+          )}
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm">
+              Log
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+      </div>
+      <CollapsibleContent>
+        <JobLog job={job} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const Jobs = () => {
+  const { data: jobs, isLoading, error } = useQuery({
+    queryKey: ["mirror-jobs"],
+    queryFn: () => listJobs(),
+    // Keep polling while any job is still being processed; interrupted ones are listed as failed
+    refetchInterval: (query) => (query.state.data?.some(isJobActive) ? 3000 : false),
+  });
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Voltar
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Histórico de mirrors
+            </CardTitle>
+            <CardDescription>
+              Os mirrors são processados no servidor e continuam mesmo se a página for fechada.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Carregando...
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">Erro ao carregar o histórico: {error.message}</p>}
+            {jobs?.length === 0 && <p className="text-sm text-muted-foreground">Nenhum mirror executado ainda.</p>}
+            {jobs?.map((job) => <JobRow key={job.id} job={job} />)}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Jobs;
@@ -0,0 +1,45 @@
+// Branch selection patterns, evaluated the same way by the Deno function and the React
+// client (for the branch picker), so this file must not import anything.
+//
+// Patterns are globs: "*" matches within a path segment, "**" across segments and "?"
+// one character. A leading "!" excludes. With no include patterns every branch starts
+// selected; otherwise only the included ones do. The last matching pattern wins, so
+// "!dependabot/**, dependabot/keep" excludes every dependabot branch but one.
+
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function isBranchSelected(name: string, patterns: string[]): boolean {
+  let selected = !patterns.some((p) => !p.startsWith("!"));
+  for (const pattern of patterns) {
+    const exclude = pattern.startsWith("!");
+    if (globToRegExp(exclude ? pattern.slice(1) : pattern).test(name)) selected = !exclude;
+  }
+  return selected;
+}
+
+// Patterns as typed in the form: separated by commas, spaces or new lines
+export function parseBranchPatterns(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
@@ -0,0 +1,66 @@
+// Events streamed by the github-mirror edge function. This file is imported both by
+// the Deno function and by the React client, so it must only contain types.
+
+export type MirrorStage =
+  | "validate"
+  | "branches"
+  | "compare"
+  | "backup"
+  | "tree"
+  | "clean"
+  | "copy"
+  | "commit"
+  | "history"
+  | "branch"
+  | "prune"
+  | "verify"
+  | "tags"
+  | "releases"
+  | "done"
+  | "rollback";
+
+export type MirrorLevel = "info" | "success" | "warn" | "error";
+
+export type MirrorErrorCode =
+  | "invalid_request"
+  | "source_unreachable"
+  | "dest_unreachable"
+  | "not_found"
+  | "access_denied"
+  | "rate_limited"
+  | "github_error"
+  | "incomplete_tree"
+  | "backup_failed"
+  | "branch_failed"
+  | "tag_failed"
+  | "release_failed"
+  | "cancelled"
+  | "destination_moved"
+  | "unknown";
+
+export type MirrorLogEvent = {
+  type: "log";
+  stage: MirrorStage;
+  level: MirrorLevel;
+  message: string;
+  branch?: string;
+  filesDone?: number;
+  filesTotal?: number;
+  commitsDone?: number;
+  commitsTotal?: number;
+  code?: MirrorErrorCode;
+};
+
+// Sent first, with the id of the job the stream belongs to (used to resume it later).
+export type MirrorJobEvent = { type: "job"; jobId: string; resumed: boolean };
+
+export type MirrorDoneEvent = { type: "done" };
+
+export type MirrorErrorEvent = { type: "error"; message: string; code: MirrorErrorCode };
+
+export type MirrorEvent = MirrorJobEvent | MirrorLogEvent | MirrorDoneEvent | MirrorErrorEvent;
+
+export type MirrorLogData = Pick<
+  MirrorLogEvent,
+  "branch" | "filesDone" | "filesTotal" | "commitsDone" | "commitsTotal" | "code"
+>;
@@ -0,0 +1,31 @@
+// Job row types and liveness, judged the same way by the Deno function (before resuming a
+// job) and the React client (for the job list), so this file must not import anything.
+
+export type JobStatus = "queued" | "running" | "failed" | "completed" | "cancelled";
+
+export type JobCounts = {
+  files?: number;
+  commits?: number;
+  branches?: number;
+  tags?: number;
+  releases?: number;
+};
+
+// Destination refs as they were before the mirror first touched them, copied under `namespace`
+export type MirrorBackup = {
+  namespace: string;
+  createdAt: string;
+  refs: { ref: string; sha: string }[];
+};
+
+// Destination refs handled by a rollback, by outcome
+export type RollbackResult = { restored: string[]; deleted: string[]; failed: string[] };
+
+// A queued or running job whose row has not been updated for this long lost its worker:
+// the edge runtime stopped it before it could record a failure. Running workers touch the
+// row every 30s, and the runtime stops any worker after about 400s.
+export const STALE_JOB_MS = 10 * 60_000;
+
+export function isJobStale(status: string, updatedAt: string, now = Date.now()): boolean {
+  return (status === "queued" || status === "running") && now - Date.parse(updatedAt) > STALE_JOB_MS;
+}
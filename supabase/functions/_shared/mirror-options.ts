@@ -0,0 +1,58 @@
+// Options sent to the github-mirror edge function when a mirror starts.
+// Shared by the Deno function and the React client, so it must only contain types.
+
+/**
+ * "snapshot" copies only the tip of each branch as a single new commit;
+ * "history" recreates every source commit with its original author, committer and dates;
+ * "sync" adds one commit with the source tree on top of the existing destination history.
+ */
+export type MirrorMode = "snapshot" | "history" | "sync";
+
+/**
+ * What to do when the source and destination default branches have different names:
+ * "keep" copies the source default branch into the destination's current default branch,
+ * "rename" renames the destination default branch after the source's,
+ * "switch" makes the branch with the source's name the destination default and keeps the old one.
+ */
+export type DefaultBranchMode = "keep" | "rename" | "switch";
+
+// Destination branch names: the first matching regex rule renames the branch (replacement
+// may use $1...), then prefix and suffix are added. Applies to the default branch too.
+export type BranchMapping = {
+  prefix: string;
+  suffix: string;
+  rules: { pattern: string; replacement: string }[];
+};
+
+export type MirrorOptions = {
+  mode: MirrorMode;
+  // Globs choosing the source branches to mirror; "!" excludes and the last match wins.
+  // Empty mirrors every branch. The default branch is always mirrored.
+  branchPatterns: string[];
+  branchMapping: BranchMapping;
+  // Delete destination tags that no longer exist in the source.
+  pruneTags: boolean;
+  // Delete destination branches that no longer exist in the source, except the ones listed.
+  pruneBranches: boolean;
+  pruneBranchesExclude: string[];
+  // Recreate GitHub Releases, including notes and uploaded assets.
+  releases: boolean;
+  // Only transfer blobs the destination does not already have.
+  incremental: boolean;
+  // Keep going (with a warning) when part of a very large source tree cannot be listed.
+  allowIncompleteTree: boolean;
+  // Subdirectory split: only this source directory is copied, to the destination root.
+  // In history mode only the commits touching it are kept. Empty copies the whole tree.
+  sourcePath: string;
+  // Import: the mirrored tree replaces this destination directory, in a new commit on top of
+  // the destination history, and the rest of the destination is kept. Not for "history" mode.
+  destinationPath: string;
+  // Gitignore-style rules ("secrets/", "*.psd", "!docs/public/") for files to leave out,
+  // applied after the source's own .mirrorignore.
+  pathRules: string[];
+  defaultBranch: DefaultBranchMode;
+  // Create the destination repository (under the user or organization in its URL) when it does not exist.
+  createDestination: boolean;
+  // Visibility of the repository created by `createDestination`.
+  destinationVisibility: "public" | "private";
+};
@@ -0,0 +1,41 @@
+// Dry-run report returned by the github-mirror edge function (`action: "preflight"`).
+// Shared by the Deno function and the React client, so it must only contain types.
+
+export type PreflightRepo = {
+  fullName: string;
+  defaultBranch: string;
+  branches: string[];
+};
+
+export type PreflightRateLimit = {
+  limit: number;
+  remaining: number;
+  // Epoch ms when the limit resets
+  reset: number;
+};
+
+// Number of paths, with at most the first 100 listed
+export type PreflightPaths = { count: number; paths: string[] };
+
+export type MirrorPreflight = {
+  source: PreflightRepo;
+  destination: PreflightRepo;
+  // Destination branches that will be replaced
+  overwritten: string[];
+  // Branches that will be created in the destination
+  created: string[];
+  // Source branches written under another name by the branch mapping
+  renamed: { source: string; destination: string }[];
+  // Destination branches with no source counterpart that the prune option deletes
+  pruned: string[];
+  // Destination branches with no source counterpart; they are left as they are
+  orphaned: string[];
+  // Distinct files across the tips of every source branch, and paths left out by the path rules
+  files: { count: number; bytes: number; submodules: number; excluded: number };
+  // Effect of the mirror on the destination default branch
+  defaultBranch: { added: PreflightPaths; changed: PreflightPaths; removed: PreflightPaths };
+  // Estimated GitHub API calls made with each token
+  apiCalls: { source: number; destination: number };
+  rateLimit: { source: PreflightRateLimit; destination: PreflightRateLimit };
+  warnings: string[];
+};
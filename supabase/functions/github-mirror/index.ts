@@ -1,4 +1,28 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type {
+  MirrorErrorCode,
+  MirrorEvent,
+  MirrorLevel,
+  MirrorLogData,
+  MirrorStage,
+} from "../_shared/mirror-events.ts";
+import type { MirrorPreflight, PreflightPaths, PreflightRateLimit } from "../_shared/mirror-preflight.ts";
+import { isBranchSelected } from "../_shared/branch-patterns.ts";
+import { isJobStale, type JobCounts, type MirrorBackup, type RollbackResult } from "../_shared/mirror-jobs.ts";
+import type { BranchMapping, DefaultBranchMode, MirrorMode, MirrorOptions } from "../_shared/mirror-options.ts";
+import {
+  type Checkpoint,
+  createJob,
+  createJobRecorder,
+  loadJob,
+  type MirrorJob,
+  updateJob,
+} from "./jobs.ts";
+import { compilePathRules, isPathExcluded, parsePathRules, type PathRule } from "./path-rules.ts";
+import { formatTime, ghRequest, RateLimitError, type RateLimitNotice, watchRateLimits } from "./scheduler.ts";
+
+// Supabase Edge Runtime API used to keep the worker alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,226 +30,1947 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+class MirrorError extends Error {
+  constructor(public code: MirrorErrorCode, message: string) {
+    super(message);
+  }
+}
+
+function errorCode(e: unknown): MirrorErrorCode {
+  if (e instanceof RateLimitError) return "rate_limited";
+  return e instanceof MirrorError ? e.code : "unknown";
+}
+
+// Cancellation and exhausted rate limits must escape the per-branch/tag/release error
+// handling: the job stops there and can be resumed
+function rethrowIfFatal(e: unknown) {
+  const code = errorCode(e);
+  if (code === "cancelled" || code === "rate_limited") throw e;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
 function parseRepoUrl(url: string): { owner: string; repo: string } {
   const match = url.replace(/\.git$/, "").match(/github\.com\/([^\/]+)\/([^\/]+)/);
-  if (!match) throw new Error(`URL inválida: ${url}`);
+  if (!match) throw new MirrorError("invalid_request", `URL inválida: ${url}`);
   return { owner: match[1], repo: match[2] };
 }
 
 async function ghFetch(path: string, token: string, options: RequestInit = {}) {
-  const res = await fetch(`https://api.github.com${path}`, {
-    ...options,
-    headers: {
-      Accept: "application/vnd.github+json",
-      Authorization: `Bearer ${token}`,
-      "X-GitHub-Api-Version": "2022-11-28",
-      ...(options.headers || {}),
-    },
-  });
+  let res: Response;
+  try {
+    res = await ghRequest(`https://api.github.com${path}`, token, {
+      ...options,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(options.headers || {}),
+      },
+    });
+  } catch (e) {
+    if (e instanceof RateLimitError) throw new MirrorError("rate_limited", `${e.message}. Retome o job mais tarde.`);
+    throw e;
+  }
   if (!res.ok) {
     const body = await res.text();
     if (res.status === 404) {
-      throw new Error(`Recurso não encontrado (404): ${path}. Verifique se o repositório existe e o token tem acesso.`);
+      throw new MirrorError("not_found", `Recurso não encontrado (404): ${path}. Verifique se o repositório existe e o token tem acesso.`);
     }
     if (res.status === 401 || res.status === 403) {
-      throw new Error(`Acesso negado (${res.status}): Verifique se o token é válido e tem permissão "repo".`);
+      throw new MirrorError("access_denied", `Acesso negado (${res.status}): Verifique se o token é válido e tem permissão "repo".`);
     }
-    throw new Error(`GitHub API ${res.status}: ${body}`);
+    if (res.status === 429) {
+      throw new MirrorError("rate_limited", `Limite de requisições do GitHub excedido (429). Retome o job mais tarde.`);
+    }
+    throw new MirrorError("github_error", `GitHub API ${res.status}: ${body}`);
   }
   if (res.status === 204) return null;
   return res.json();
 }
 
-async function mirrorRepo(
-  sourceUrl: string,
-  destUrl: string,
-  sourceToken: string,
-  destToken: string,
-): Promise<string[]> {
-  const logs: string[] = [];
-  const log = (msg: string) => logs.push(msg);
+type RepoRef = { owner: string; repo: string; token: string };
 
-  // 1. Validate source
-  log("🔍 Validando repositório de origem...");
-  const { owner: sOwner, repo: sRepo } = parseRepoUrl(sourceUrl);
-  let sourceData: any;
-  try {
-    sourceData = await ghFetch(`/repos/${sOwner}/${sRepo}`, sourceToken);
-  } catch (e: any) {
-    throw new Error(`Erro ao acessar origem (${sOwner}/${sRepo}): ${e.message}`);
-  }
-  const sBranch = sourceData.default_branch;
-  log(`✅ Origem: ${sourceData.full_name} (branch: ${sBranch}, ${sourceData.private ? "privado" : "público"})`);
+type Logger = Record<MirrorLevel, (message: string, data?: MirrorLogData) => void> & {
+  // Switches the stage attached to every following event
+  stage: (stage: MirrorStage) => void;
+};
 
-  // 2. Validate dest
-  log("🔍 Validando repositório de destino...");
-  const { owner: dOwner, repo: dRepo } = parseRepoUrl(destUrl);
-  let destData: any;
-  try {
-    destData = await ghFetch(`/repos/${dOwner}/${dRepo}`, destToken);
-  } catch (e: any) {
-    throw new Error(`Erro ao acessar destino (${dOwner}/${dRepo}): ${e.message}`);
+function createLogger(emit: (event: MirrorEvent) => void): Logger {
+  let current: MirrorStage = "validate";
+  const at = (level: MirrorLevel) => (message: string, data?: MirrorLogData) =>
+    emit({ type: "log", stage: current, level, message, ...data });
+  return {
+    stage: (stage) => {
+      current = stage;
+    },
+    info: at("info"),
+    success: at("success"),
+    warn: at("warn"),
+    error: at("error"),
+  };
+}
+
+type MirrorContext = {
+  src: RepoRef;
+  dst: RepoRef;
+  log: Logger;
+  // Blob SHAs known to exist in the destination, shared by every stage of the run.
+  // Blob SHAs are content addresses, so a known blob never needs to be transferred again.
+  knownBlobs: Set<string>;
+  transfer: { copied: number; skipped: number };
+  options: MirrorOptions;
+  // Source directories that could not be listed (only when allowIncompleteTree is set)
+  skippedPaths: string[];
+  paths: PathFilter;
+  // Resumable progress, restored from and saved to the job checkpoint
+  commits: Map<string, string>;
+  trees: Map<string, string>;
+  completedBranches: Set<string>;
+  cleanCommit?: string;
+  defaultHead?: string;
+  // The destination had no commits: its only commit so far is the bootstrap
+  // placeholder, and the mirrored default branch starts from a root commit
+  emptyDestination: boolean;
+  previousDefaultBranch?: string;
+  // Saves a checkpoint; without `force`, saves are throttled
+  persist: (force?: boolean) => Promise<void>;
+  // Throws once the job was cancelled. Only called where the destination is consistent:
+  // between blob batches, between commits, and before moving a ref.
+  stopIfCancelled: () => Promise<void>;
+  // Destination refs and releases written by this run, reported when it is cancelled
+  changes: string[];
+  // Every destination ref written by the job -> SHA it was left at (null once deleted).
+  // Kept in the checkpoint so the mirror can be rolled back.
+  refs: Map<string, string | null>;
+};
+
+type TreeEntry = { path: string; mode: string; type: string; sha: string; size?: number };
+
+type PathFilter = {
+  // Source directory whose contents become the destination root ("" for the whole tree)
+  root: string;
+  rules: PathRule[];
+  // .mirrorignore blob SHA -> its rules
+  ignoreFiles: Map<string, PathRule[]>;
+  // Source paths left out so far
+  excluded: Set<string>;
+};
+
+function createPathFilter(options: MirrorOptions): PathFilter {
+  return { root: options.sourcePath, rules: compilePathRules(options.pathRules), ignoreFiles: new Map(), excluded: new Set() };
+}
+
+// Keeps the entries under the split directory, moved to the root, then drops the files
+// excluded by the .mirrorignore at that root and by the path rules
+async function filterTree(repo: RepoRef, filter: PathFilter, tree: TreeEntry[]): Promise<TreeEntry[]> {
+  const prefix = filter.root ? `${filter.root}/` : "";
+  const entries = prefix
+    ? tree.filter((e) => e.path.startsWith(prefix)).map((e) => ({ ...e, path: e.path.slice(prefix.length) }))
+    : tree;
+  const ignoreFile = entries.find((e) => e.path === ".mirrorignore" && e.type === "blob");
+  let fileRules: PathRule[] = [];
+  if (ignoreFile) {
+    if (!filter.ignoreFiles.has(ignoreFile.sha)) {
+      const blob = await ghFetch(repoPath(repo, `/git/blobs/${ignoreFile.sha}`), repo.token);
+      const bytes = Uint8Array.from(atob(blob.content.replace(/\n/g, "")), (c) => c.charCodeAt(0));
+      filter.ignoreFiles.set(ignoreFile.sha, parsePathRules(new TextDecoder().decode(bytes)));
+    }
+    fileRules = filter.ignoreFiles.get(ignoreFile.sha)!;
   }
-  const dBranch = destData.default_branch;
-  log(`✅ Destino: ${destData.full_name} (branch: ${dBranch}, ${destData.private ? "privado" : "público"})`);
+  const rules = [...fileRules, ...filter.rules];
+  if (rules.length === 0) return entries;
+  return entries.filter((e) => {
+    if (e.type === "tree" || !isPathExcluded(e.path, rules)) return true;
+    filter.excluded.add(e.path);
+    return false;
+  });
+}
+
+type SourceBranch = { name: string; commit: { sha: string } };
 
-  // 3. Get all branches from source
-  log("📋 Obtendo branches da origem...");
-  const sourceBranches: any[] = [];
+type GitIdentity = { name: string; email: string; date: string };
+
+type SourceCommit = {
+  sha: string;
+  commit: { message: string; tree: { sha: string }; author: GitIdentity; committer: GitIdentity };
+  parents: { sha: string }[];
+};
+
+function repoPath({ owner, repo }: RepoRef, path: string) {
+  return `/repos/${owner}/${repo}${path}`;
+}
+
+async function ghPaginate<T>(path: string, token: string): Promise<T[]> {
+  const items: T[] = [];
+  const sep = path.includes("?") ? "&" : "?";
   let page = 1;
   while (true) {
-    const branches = await ghFetch(`/repos/${sOwner}/${sRepo}/branches?per_page=100&page=${page}`, sourceToken);
-    if (!branches || branches.length === 0) break;
-    sourceBranches.push(...branches);
-    if (branches.length < 100) break;
+    const batch = await ghFetch(`${path}${sep}per_page=100&page=${page}`, token);
+    if (!batch || batch.length === 0) break;
+    items.push(...batch);
+    if (batch.length < 100) break;
     page++;
   }
-  log(`📋 ${sourceBranches.length} branch(es) encontrado(s)`);
+  return items;
+}
 
-  // 4. Get source tree for default branch
-  log("📂 Obtendo árvore de arquivos da origem...");
-  const tree = await ghFetch(`/repos/${sOwner}/${sRepo}/git/trees/${sBranch}?recursive=1`, sourceToken);
-  const blobs = tree.tree.filter((e: any) => e.type === "blob");
-  log(`📂 ${blobs.length} arquivo(s) encontrado(s)`);
+// Copies blobs 10 at a time, skipping those the destination already holds.
+async function copyBlobs(
+  ctx: MirrorContext,
+  blobs: TreeEntry[],
+  onBatch?: (done: number) => void | Promise<void>,
+): Promise<TreeEntry[]> {
+  const { src, dst, knownBlobs, transfer } = ctx;
+  const entries: TreeEntry[] = [];
+  for (let i = 0; i < blobs.length; i += 10) {
+    await ctx.stopIfCancelled();
+    const batch = blobs.slice(i, i + 10);
+    const results = await Promise.all(
+      batch.map(async (blob) => {
+        if (knownBlobs.has(blob.sha)) {
+          transfer.skipped++;
+          return { path: blob.path, mode: blob.mode, type: "blob", sha: blob.sha };
+        }
+        const blobData = await ghFetch(repoPath(src, `/git/blobs/${blob.sha}`), src.token);
+        const newBlob = await ghFetch(repoPath(dst, "/git/blobs"), dst.token, {
+          method: "POST",
+          body: JSON.stringify({ content: blobData.content, encoding: blobData.encoding }),
+        });
+        knownBlobs.add(newBlob.sha);
+        transfer.copied++;
+        return { path: blob.path, mode: blob.mode, type: "blob", sha: newBlob.sha };
+      })
+    );
+    entries.push(...results);
+    await onBatch?.(Math.min(i + 10, blobs.length));
+  }
+  return entries;
+}
 
-  // 5. Clean dest - create a tree with just a placeholder file (GitHub rejects empty trees)
-  log("🗑️ Limpando repositório de destino...");
-  const destRef = await ghFetch(`/repos/${dOwner}/${dRepo}/git/ref/heads/${dBranch}`, destToken);
+type TreeListing = { entries: TreeEntry[]; skipped: string[] };
 
-  const placeholderBlob = await ghFetch(`/repos/${dOwner}/${dRepo}/git/blobs`, destToken, {
-    method: "POST",
-    body: JSON.stringify({ content: "mirror in progress", encoding: "utf-8" }),
-  });
+// Lists every entry of a tree. GitHub truncates recursive listings of large trees
+// (`truncated: true`), in which case the tree is walked one directory at a time.
+// Directories that still cannot be fully listed are reported in `skipped`.
+async function listTree(repo: RepoRef, treeish: string): Promise<TreeListing> {
+  const root = await ghFetch(repoPath(repo, `/git/trees/${treeish}?recursive=1`), repo.token);
+  if (!root.truncated) return { entries: root.tree, skipped: [] };
 
-  const cleanTree = await ghFetch(`/repos/${dOwner}/${dRepo}/git/trees`, destToken, {
-    method: "POST",
-    body: JSON.stringify({ tree: [{ path: ".mirror", mode: "100644", type: "blob", sha: placeholderBlob.sha }] }),
-  });
+  const entries: TreeEntry[] = [];
+  const skipped: string[] = [];
+  let queue = [{ sha: root.sha as string, prefix: "" }];
+  while (queue.length > 0) {
+    const next: typeof queue = [];
+    for (let i = 0; i < queue.length; i += 10) {
+      await Promise.all(
+        queue.slice(i, i + 10).map(async ({ sha, prefix }) => {
+          let level;
+          try {
+            level = await ghFetch(repoPath(repo, `/git/trees/${sha}`), repo.token);
+          } catch (e) {
+            rethrowIfFatal(e);
+            skipped.push(prefix || "/");
+            return;
+          }
+          if (level.truncated) skipped.push(prefix || "/");
+          for (const e of level.tree as TreeEntry[]) {
+            const path = prefix ? `${prefix}/${e.path}` : e.path;
+            entries.push({ ...e, path });
+            if (e.type === "tree") next.push({ sha: e.sha, prefix: path });
+          }
+        })
+      );
+    }
+    queue = next;
+  }
+  return { entries, skipped };
+}
 
-  const emptyCommit = await ghFetch(`/repos/${dOwner}/${dRepo}/git/commits`, destToken, {
-    method: "POST",
-    body: JSON.stringify({
-      message: "🗑️ Limpar repositório para mirror",
-      tree: cleanTree.sha,
-      parents: [destRef.object.sha],
-    }),
+// Lists a source tree without the files left out by the path rules, failing the run if
+// any part of it cannot be read unless the caller explicitly accepted an incomplete mirror.
+async function fetchSourceTree(ctx: MirrorContext, treeish: string): Promise<TreeEntry[]> {
+  const listing = await listTree(ctx.src, treeish);
+  const { skipped } = listing;
+  const entries = await filterTree(ctx.src, ctx.paths, listing.entries);
+  if (ctx.paths.root && !entries.some((e) => e.type !== "tree")) {
+    throw new MirrorError("not_found", `Diretório '${ctx.paths.root}' não encontrado ou vazio na árvore ${treeish}`);
+  }
+  if (skipped.length === 0) return entries;
+  const list = skipped.slice(0, 10).join(", ") + (skipped.length > 10 ? ", ..." : "");
+  if (!ctx.options.allowIncompleteTree) {
+    throw new MirrorError(
+      "incomplete_tree",
+      `Árvore ${treeish} incompleta: ${skipped.length} diretório(s) não puderam ser lidos (${list})`,
+    );
+  }
+  ctx.skippedPaths.push(...skipped);
+  ctx.log.warn(`⚠️ Árvore ${treeish} incompleta: ${skipped.length} diretório(s) ignorado(s) (${list})`, {
+    code: "incomplete_tree",
   });
+  return entries;
+}
+
+// Turns a source tree listing into destination tree entries: blobs are copied, and
+// gitlinks (submodules, type "commit") are carried over with their pinned commit SHA.
+// Modes (executable, symlink, ...) are kept verbatim.
+async function buildTreeEntries(
+  ctx: MirrorContext,
+  tree: TreeEntry[],
+  onBatch?: (done: number) => void | Promise<void>,
+): Promise<TreeEntry[]> {
+  const blobs = tree.filter((e) => e.type === "blob");
+  const gitlinks = tree
+    .filter((e) => e.type === "commit")
+    .map(({ path, mode, type, sha }) => ({ path, mode, type, sha }));
+  return [...(await copyBlobs(ctx, blobs, onBatch)), ...gitlinks];
+}
+
+// Marks every blob in the current tree of the given destination branches as known,
+// so incremental runs only transfer what the destination is missing.
+async function seedKnownBlobs(ctx: MirrorContext, branches: string[]) {
+  const { dst, knownBlobs } = ctx;
+  const before = knownBlobs.size;
+  for (const name of new Set(branches)) {
+    let head: string;
+    try {
+      const ref = await ghFetch(repoPath(dst, `/git/ref/heads/${name}`), dst.token);
+      head = ref.object.sha;
+    } catch (e) {
+      rethrowIfFatal(e);
+      continue; // Branch does not exist in the destination yet
+    }
+    // A partial listing only means fewer blobs get reused
+    const { entries } = await listTree(dst, head);
+    for (const e of entries) {
+      if (e.type === "blob") knownBlobs.add(e.sha);
+    }
+  }
+  return knownBlobs.size - before;
+}
+
+async function destBranchHead(dst: RepoRef, name: string): Promise<string | null> {
+  try {
+    const ref = await ghFetch(repoPath(dst, `/git/ref/heads/${name}`), dst.token);
+    return ref.object.sha;
+  } catch (e) {
+    if (errorCode(e) === "not_found") return null;
+    throw e;
+  }
+}
 
-  await ghFetch(`/repos/${dOwner}/${dRepo}/git/refs/heads/${dBranch}`, destToken, {
+// Creates the ref (e.g. "heads/main", "tags/v1.0"), or force-moves it when it already exists.
+async function upsertRef(ctx: MirrorContext, ref: string, sha: string) {
+  const { dst } = ctx;
+  ctx.changes.push(ref);
+  try {
+    await ghFetch(repoPath(dst, "/git/refs"), dst.token, {
+      method: "POST",
+      body: JSON.stringify({ ref: `refs/${ref}`, sha }),
+    });
+  } catch {
+    await ghFetch(repoPath(dst, `/git/refs/${ref}`), dst.token, {
+      method: "PATCH",
+      body: JSON.stringify({ sha, force: true }),
+    });
+  }
+  ctx.refs.set(`refs/${ref}`, sha);
+}
+
+// Force-moves an existing ref.
+async function moveRef(ctx: MirrorContext, ref: string, sha: string) {
+  const { dst } = ctx;
+  ctx.changes.push(ref);
+  await ghFetch(repoPath(dst, `/git/refs/${ref}`), dst.token, {
     method: "PATCH",
-    body: JSON.stringify({ sha: emptyCommit.sha, force: true }),
+    body: JSON.stringify({ sha, force: true }),
   });
-  log("✅ Destino limpo");
+  ctx.refs.set(`refs/${ref}`, sha);
+}
 
-  // 6. Copy blobs in batches
-  log("📦 Copiando arquivos...");
-  const newTreeEntries: any[] = [];
-  for (let i = 0; i < blobs.length; i += 10) {
-    const batch = blobs.slice(i, i + 10);
-    const results = await Promise.all(
-      batch.map(async (blob: any) => {
-        const blobData = await ghFetch(`/repos/${sOwner}/${sRepo}/git/blobs/${blob.sha}`, sourceToken);
-        const newBlob = await ghFetch(`/repos/${dOwner}/${dRepo}/git/blobs`, destToken, {
+// Orders commits so that every parent comes before its children.
+function topoSort(commits: Map<string, SourceCommit>, head: string): SourceCommit[] {
+  const ordered: SourceCommit[] = [];
+  const visited = new Set<string>();
+  const stack: { sha: string; expanded: boolean }[] = [{ sha: head, expanded: false }];
+  while (stack.length > 0) {
+    const top = stack.pop()!;
+    const commit = commits.get(top.sha);
+    if (!commit) continue;
+    if (top.expanded) {
+      ordered.push(commit);
+      continue;
+    }
+    if (visited.has(top.sha)) continue;
+    visited.add(top.sha);
+    stack.push({ sha: top.sha, expanded: true });
+    for (const parent of [...commit.parents].reverse()) {
+      if (!visited.has(parent.sha)) stack.push({ sha: parent.sha, expanded: false });
+    }
+  }
+  return ordered;
+}
+
+// SHA of the directory at `path` in a source tree, or null when the tree has no such
+// directory. Cached per tree and remaining path, so unchanged parent directories are read once.
+async function subtreeSha(
+  src: RepoRef,
+  tree: string,
+  path: string,
+  cache: Map<string, string | null>,
+): Promise<string | null> {
+  const key = `${tree}:${path}`;
+  if (cache.has(key)) return cache.get(key)!;
+  const [name, ...rest] = path.split("/");
+  const level = await ghFetch(repoPath(src, `/git/trees/${tree}`), src.token);
+  const entry = (level.tree as TreeEntry[]).find((e) => e.path === name && e.type === "tree");
+  const sha = !entry ? null : rest.length > 0 ? await subtreeSha(src, entry.sha, rest.join("/"), cache) : entry.sha;
+  cache.set(key, sha);
+  return sha;
+}
+
+// Whether the destination commit `target` stands for `sha` or one of its source ancestors
+function standsForAncestor(
+  listed: Map<string, SourceCommit>,
+  commits: Map<string, string>,
+  sha: string,
+  target: string,
+): boolean {
+  const stack = [sha];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    if (commits.get(current) === target) return true;
+    for (const p of listed.get(current)?.parents ?? []) stack.push(p.sha);
+  }
+  return false;
+}
+
+// Recreates every commit reachable from `head` in the destination, keeping the
+// original message, author, committer and timestamps. Commits already present in
+// `ctx.commits` (shared with a previously mirrored branch, or restored from a
+// checkpoint) are reused. Blobs referenced by new trees are added to `seenBlobs`.
+//
+// With a subdirectory split, as in `git subtree split`, a commit leaving the directory
+// as one of its parents had it is replaced by that parent's destination commit, and a
+// merge is kept only when its parents stand for diverged destination commits.
+async function mirrorHistory(ctx: MirrorContext, head: string, seenBlobs: Set<string>): Promise<string> {
+  const { src, dst, log, commits, trees } = ctx;
+  if (commits.has(head)) return mirroredHead(ctx, head);
+
+  const listed = await ghPaginate<SourceCommit>(repoPath(src, `/commits?sha=${head}`), src.token);
+  const bySha = new Map(listed.map((c) => [c.sha, c]));
+  const root = ctx.paths.root;
+  const subtrees = new Map<string, string | null>();
+  const splitTree = (sha: string) => {
+    const commit = bySha.get(sha);
+    return root && commit ? subtreeSha(src, commit.commit.tree.sha, root, subtrees) : Promise.resolve(null);
+  };
+  const pending = new Map(listed.filter((c) => !commits.has(c.sha)).map((c) => [c.sha, c]));
+  const ordered = topoSort(pending, head);
+  log.info(`🕓 ${ordered.length} commit(s) para recriar`, { commitsDone: 0, commitsTotal: ordered.length });
+
+  let done = 0;
+  for (const commit of ordered) {
+    await ctx.stopIfCancelled();
+    // "" maps split commits without the directory, which have nothing to stand for
+    const parents = commit.parents.map((p) => {
+      const mapped = commits.get(p.sha);
+      if (mapped === undefined) throw new Error(`Commit pai ${p.sha} de ${commit.sha} não foi recriado`);
+      return mapped;
+    });
+
+    let kept = [...new Set(parents.filter(Boolean))];
+    let replacement: string | undefined;
+    if (root) {
+      const own = await splitTree(commit.sha);
+      if (own === null) {
+        // Descendants that bring the directory back start a new history
+        if (kept.length > 0) {
+          log.warn(`⚠️ O commit ${commit.sha.slice(0, 7)} remove o diretório '${root}'; o histórico recomeça depois dele`);
+        }
+        replacement = "";
+      } else {
+        // A parent standing for an ancestor of another parent's commit adds nothing
+        kept = kept.filter((d) =>
+          !commit.parents.some((p, i) => parents[i] !== d && parents[i] && standsForAncestor(bySha, commits, p.sha, d))
+        );
+        if (kept.length === 1) {
+          for (const [i, p] of commit.parents.entries()) {
+            if (parents[i] === kept[0] && (await splitTree(p.sha)) === own) replacement = kept[0];
+          }
+        }
+      }
+    }
+
+    if (replacement !== undefined) {
+      commits.set(commit.sha, replacement);
+    } else {
+      const sourceTree = commit.commit.tree.sha;
+      let destTree = trees.get(sourceTree);
+      if (!destTree) {
+        const tree = await fetchSourceTree(ctx, sourceTree);
+        const entries = await buildTreeEntries(ctx, tree);
+        for (const e of entries) if (e.type === "blob") seenBlobs.add(e.sha);
+        const created = await ghFetch(repoPath(dst, "/git/trees"), dst.token, {
           method: "POST",
-          body: JSON.stringify({ content: blobData.content, encoding: blobData.encoding }),
+          body: JSON.stringify({ tree: entries }),
         });
-        return { path: blob.path, mode: blob.mode || "100644", type: "blob", sha: newBlob.sha };
-      })
+        destTree = created.sha as string;
+        trees.set(sourceTree, destTree);
+      }
+
+      const { message, author, committer } = commit.commit;
+      const created = await ghFetch(repoPath(dst, "/git/commits"), dst.token, {
+        method: "POST",
+        body: JSON.stringify({ message, tree: destTree, parents: kept, author, committer }),
+      });
+      commits.set(commit.sha, created.sha);
+    }
+    await ctx.persist();
+
+    done++;
+    if (done % 10 === 0 || done === ordered.length) {
+      log.info(`🕓 ${done}/${ordered.length} commits recriados`, { commitsDone: done, commitsTotal: ordered.length });
+    }
+  }
+
+  return mirroredHead(ctx, head);
+}
+
+// Destination commit standing for a source commit already handled by mirrorHistory. A split
+// commit without the directory maps to "", which no branch or tag can point at.
+function mirroredHead(ctx: MirrorContext, head: string): string {
+  const mapped = ctx.commits.get(head);
+  if (!mapped) {
+    const root = ctx.paths.root;
+    throw new Error(
+      root ? `O diretório '${root}' não existe em ${head.slice(0, 7)}` : `Não foi possível recriar o commit ${head}`,
     );
-    newTreeEntries.push(...results);
-    log(`📦 ${Math.min(i + 10, blobs.length)}/${blobs.length} arquivos copiados`);
   }
+  return mapped;
+}
 
-  // 7. Create tree + commit in dest
-  log("🌳 Criando árvore no destino...");
-  const currentDestRef = await ghFetch(`/repos/${dOwner}/${dRepo}/git/ref/heads/${dBranch}`, destToken);
+type MirrorResult = {
+  files: number;
+  // Source commit SHA -> destination commit SHA for every commit written by this run.
+  commitMap: Map<string, string>;
+  // Returns the destination commit standing in for a source commit, creating it if needed.
+  resolveCommit: (sourceSha: string, label: string) => Promise<string>;
+};
 
-  const newTree = await ghFetch(`/repos/${dOwner}/${dRepo}/git/trees`, destToken, {
+async function commitTree(repo: RepoRef, sha: string): Promise<string> {
+  const commit = await ghFetch(repoPath(repo, `/git/commits/${sha}`), repo.token);
+  return commit.tree.sha;
+}
+
+// Writes the destination tree for mirrored entries. With an import path they replace that
+// directory of `baseTree` (the tree of the destination commit being built on), keeping the rest.
+async function writeTree(ctx: MirrorContext, entries: TreeEntry[], baseTree: string | null): Promise<string> {
+  const { dst } = ctx;
+  const tree = await ghFetch(repoPath(dst, "/git/trees"), dst.token, {
     method: "POST",
-    body: JSON.stringify({ tree: newTreeEntries }),
+    body: JSON.stringify({ tree: entries }),
   });
-
-  const newCommit = await ghFetch(`/repos/${dOwner}/${dRepo}/git/commits`, destToken, {
+  const path = ctx.options.destinationPath;
+  if (!path) return tree.sha;
+  const grafted = await ghFetch(repoPath(dst, "/git/trees"), dst.token, {
     method: "POST",
     body: JSON.stringify({
-      message: `📦 Mirror de ${sourceData.full_name}\n\nCopiado via GitHub Repo Mirror`,
-      tree: newTree.sha,
-      parents: [currentDestRef.object.sha],
+      ...(baseTree ? { base_tree: baseTree } : {}),
+      tree: [{ path, mode: "040000", type: "tree", sha: tree.sha }],
     }),
   });
+  return grafted.sha;
+}
 
-  await ghFetch(`/repos/${dOwner}/${dRepo}/git/refs/heads/${dBranch}`, destToken, {
-    method: "PATCH",
-    body: JSON.stringify({ sha: newCommit.sha, force: true }),
+// Copies the tree of a source commit and commits it on top of `parent` in the destination.
+// In sync mode, and when importing into a directory of `parent`'s tree, no commit is made
+// when the result is exactly `parent`'s tree.
+async function snapshotCommit(ctx: MirrorContext, sourceSha: string, message: string, parent: string) {
+  const { dst } = ctx;
+  const tree = await fetchSourceTree(ctx, sourceSha);
+  const entries = await buildTreeEntries(ctx, tree);
+
+  const onTop = ctx.options.mode === "sync" || ctx.options.destinationPath;
+  const parentTree = onTop ? await commitTree(dst, parent) : null;
+  const newTree = await writeTree(ctx, entries, parentTree);
+  if (newTree === parentTree) return parent;
+
+  const commit = await ghFetch(repoPath(dst, "/git/commits"), dst.token, {
+    method: "POST",
+    body: JSON.stringify({ message, tree: newTree, parents: [parent] }),
   });
+  return commit.sha as string;
+}
 
-  // 8. Copy additional branches
-  if (sourceBranches.length > 1) {
-    log("🔀 Copiando branches adicionais...");
-    for (const branch of sourceBranches) {
-      if (branch.name === sBranch) continue;
-      try {
-        // Get branch tree
-        const branchTree = await ghFetch(
-          `/repos/${sOwner}/${sRepo}/git/trees/${branch.commit.sha}?recursive=1`,
-          sourceToken
-        );
-        const branchBlobs = branchTree.tree.filter((e: any) => e.type === "blob");
-
-        const branchTreeEntries: any[] = [];
-        for (let i = 0; i < branchBlobs.length; i += 10) {
-          const batch = branchBlobs.slice(i, i + 10);
-          const results = await Promise.all(
-            batch.map(async (blob: any) => {
-              const blobData = await ghFetch(`/repos/${sOwner}/${sRepo}/git/blobs/${blob.sha}`, sourceToken);
-              const newBlob = await ghFetch(`/repos/${dOwner}/${dRepo}/git/blobs`, destToken, {
-                method: "POST",
-                body: JSON.stringify({ content: blobData.content, encoding: blobData.encoding }),
-              });
-              return { path: blob.path, mode: blob.mode || "100644", type: "blob", sha: newBlob.sha };
-            })
-          );
-          branchTreeEntries.push(...results);
-        }
+// Copies every selected branch but the default one (`sBranch`, already on `dBranch`): `copy`
+// returns the destination commit for the branch, which its mapped ref is moved to. Branches
+// whose name is taken, already done by an earlier run, or failing are logged and skipped.
+async function mirrorAdditionalBranches(
+  ctx: MirrorContext,
+  sourceBranches: SourceBranch[],
+  sBranch: string,
+  dBranch: string,
+  copy: (branch: SourceBranch, target: string) => Promise<string>,
+) {
+  const { log } = ctx;
+  if (sourceBranches.length <= 1) return;
+  log.stage("branch");
+  log.info("🔀 Copiando branches adicionais...");
+  const { targets, collisions } = planBranchTargets(ctx.options, sourceBranches, sBranch, dBranch);
+  for (const { source, destination, owner } of collisions) {
+    log.warn(`⚠️ Branch '${source}' ignorado: '${destination}' recebe no destino o branch '${owner}' da origem`, {
+      branch: source,
+      code: "branch_failed",
+    });
+  }
 
-        const bTree = await ghFetch(`/repos/${dOwner}/${dRepo}/git/trees`, destToken, {
+  const byName = new Map(sourceBranches.map((b) => [b.name, b]));
+  for (const { source, destination: target } of targets) {
+    if (source === sBranch) continue;
+    if (ctx.completedBranches.has(source)) {
+      log.info(`⏩ Branch '${source}' já copiado em uma execução anterior`, { branch: source });
+      continue;
+    }
+    await ctx.stopIfCancelled();
+    try {
+      const head = await copy(byName.get(source)!, target);
+      await upsertRef(ctx, `heads/${target}`, head);
+      ctx.completedBranches.add(source);
+      await ctx.persist(true);
+      log.info(`🔀 Branch '${source}' copiado${target !== source ? ` para '${target}'` : ""}`, { branch: source });
+    } catch (e) {
+      rethrowIfFatal(e);
+      log.warn(`⚠️ Erro ao copiar branch '${source}': ${errorMessage(e)}`, { branch: source, code: "branch_failed" });
+    }
+  }
+}
+
+async function mirrorSnapshot(
+  ctx: MirrorContext,
+  sourceName: string,
+  sourceBranches: SourceBranch[],
+  sBranch: string,
+  dBranch: string,
+): Promise<MirrorResult> {
+  const { dst, log, commits } = ctx;
+  const sync = ctx.options.mode === "sync";
+  const importPath = ctx.options.destinationPath;
+
+  // 4. Get source tree for default branch
+  log.stage("tree");
+  log.info("📂 Obtendo árvore de arquivos da origem...");
+  const tree = await fetchSourceTree(ctx, sBranch);
+  const blobs = tree.filter((e) => e.type === "blob");
+  const submodules = tree.filter((e) => e.type === "commit").length;
+  const excluded = ctx.paths.excluded.size > 0 ? `, ${ctx.paths.excluded.size} excluído(s) pelas regras de caminho` : "";
+  log.info(`📂 ${blobs.length} arquivo(s) encontrado(s)${submodules > 0 ? `, ${submodules} submódulo(s)` : ""}${excluded}`, {
+    branch: sBranch,
+    filesTotal: blobs.length,
+  });
+
+  if (ctx.defaultHead) {
+    log.info(`⏩ Branch '${sBranch}' já copiado em uma execução anterior`, { branch: sBranch });
+  } else {
+    // 5. Clean dest - create a tree with just a placeholder file (GitHub rejects empty trees)
+    // (skipped in sync mode, which commits straight on top of the destination history, and
+    // when importing into a directory, which keeps the rest of the destination)
+    if (!sync && !importPath && !ctx.emptyDestination) {
+      await ctx.stopIfCancelled();
+      log.stage("clean");
+      const destHead = await destBranchHead(dst, dBranch);
+      if (!destHead) {
+        log.info(`🆕 Branch '${dBranch}' ainda não existe no destino, nada para limpar`);
+      } else if (ctx.cleanCommit && destHead === ctx.cleanCommit) {
+        log.info("⏩ Destino já foi limpo em uma execução anterior");
+      } else {
+        log.info("🗑️ Limpando repositório de destino...");
+        const placeholderBlob = await ghFetch(repoPath(dst, "/git/blobs"), dst.token, {
           method: "POST",
-          body: JSON.stringify({ tree: branchTreeEntries }),
+          body: JSON.stringify({ content: "mirror in progress", encoding: "utf-8" }),
         });
 
-        const bCommit = await ghFetch(`/repos/${dOwner}/${dRepo}/git/commits`, destToken, {
+        const cleanTree = await ghFetch(repoPath(dst, "/git/trees"), dst.token, {
+          method: "POST",
+          body: JSON.stringify({ tree: [{ path: ".mirror", mode: "100644", type: "blob", sha: placeholderBlob.sha }] }),
+        });
+
+        const emptyCommit = await ghFetch(repoPath(dst, "/git/commits"), dst.token, {
+          method: "POST",
+          body: JSON.stringify({
+            message: "🗑️ Limpar repositório para mirror",
+            tree: cleanTree.sha,
+            parents: [destHead],
+          }),
+        });
+
+        await moveRef(ctx, `heads/${dBranch}`, emptyCommit.sha);
+        ctx.cleanCommit = emptyCommit.sha;
+        await ctx.persist(true);
+        log.success("✅ Destino limpo");
+      }
+    }
+
+    // 6. Copy blobs in batches
+    log.stage("copy");
+    log.info("📦 Copiando arquivos...", { branch: sBranch, filesDone: 0, filesTotal: blobs.length });
+    const newTreeEntries = await buildTreeEntries(ctx, tree, async (done) => {
+      log.info(`📦 ${done}/${blobs.length} arquivos copiados`, { branch: sBranch, filesDone: done, filesTotal: blobs.length });
+      await ctx.persist();
+    });
+
+    // 7. Create tree + commit in dest
+    await ctx.stopIfCancelled();
+    log.stage("commit");
+    log.info("🌳 Criando árvore no destino...");
+    const currentHead = await destBranchHead(dst, dBranch);
+    const startsHistory = ctx.emptyDestination || !currentHead;
+    const currentTree = (sync || importPath) && !startsHistory ? await commitTree(dst, currentHead) : null;
+    const newTree = await writeTree(ctx, newTreeEntries, currentTree);
+
+    const defaultBranch = sourceBranches.find((b) => b.name === sBranch);
+    let newHead: string;
+    if (currentHead && newTree === currentTree) {
+      log.info(`✅ '${dBranch}' já está igual à origem, nenhum commit criado`, { branch: sBranch });
+      newHead = currentHead;
+    } else {
+      const sourceHead = defaultBranch ? `@${defaultBranch.commit.sha.slice(0, 7)}` : "";
+      const newCommit = await ghFetch(repoPath(dst, "/git/commits"), dst.token, {
+        method: "POST",
+        body: JSON.stringify({
+          message: importPath
+            ? `📥 Importar ${sourceName}${sourceHead} em ${importPath}/\n\nImportado via GitHub Repo Mirror`
+            : sync
+            ? `🔄 Sync de ${sourceName}${sourceHead}\n\nSincronizado via GitHub Repo Mirror`
+            : `📦 Mirror de ${sourceName}\n\nCopiado via GitHub Repo Mirror`,
+          tree: newTree,
+          // The bootstrap placeholder of an empty destination is not kept, and a branch
+          // new to the destination starts its own history
+          parents: startsHistory ? [] : [currentHead],
+        }),
+      });
+      await upsertRef(ctx, `heads/${dBranch}`, newCommit.sha);
+      newHead = newCommit.sha;
+    }
+    if (defaultBranch) commits.set(defaultBranch.commit.sha, newHead);
+    ctx.defaultHead = newHead;
+    ctx.completedBranches.add(sBranch);
+    await ctx.persist(true);
+  }
+  const head = ctx.defaultHead!;
+
+  // 8. Copy additional branches
+  await mirrorAdditionalBranches(ctx, sourceBranches, sBranch, dBranch, async (branch, target) => {
+    // Sync mode and imports build on the branch's own destination history when it has one
+    const parent = sync || importPath ? ((await destBranchHead(dst, target)) ?? head) : head;
+    const message = sync
+      ? `🔄 Sync branch: ${branch.name}@${branch.commit.sha.slice(0, 7)}`
+      : `📦 Mirror branch: ${branch.name}`;
+    const bCommit = await snapshotCommit(ctx, branch.commit.sha, message, parent);
+    commits.set(branch.commit.sha, bCommit);
+    return bCommit;
+  });
+
+  const resolveCommit = async (sourceSha: string, label: string) => {
+    const existing = commits.get(sourceSha);
+    if (existing) return existing;
+    const created = await snapshotCommit(ctx, sourceSha, `📦 Mirror ${label}`, head);
+    commits.set(sourceSha, created);
+    return created;
+  };
+
+  return { files: blobs.length, commitMap: commits, resolveCommit };
+}
+
+async function mirrorWithHistory(
+  ctx: MirrorContext,
+  sourceBranches: SourceBranch[],
+  sBranch: string,
+  dBranch: string,
+): Promise<MirrorResult> {
+  const { log } = ctx;
+  const seenBlobs = new Set<string>();
+
+  // 4. Recreate the default branch history and move the destination default branch onto it
+  const defaultBranch = sourceBranches.find((b) => b.name === sBranch);
+  if (!defaultBranch) throw new Error(`Branch padrão '${sBranch}' não encontrado na origem`);
+  log.stage("history");
+  log.info(`🕓 Recriando histórico do branch '${sBranch}'...`, { branch: sBranch });
+  const head = await mirrorHistory(ctx, defaultBranch.commit.sha, seenBlobs);
+  await ctx.stopIfCancelled();
+  await upsertRef(ctx, `heads/${dBranch}`, head);
+  ctx.completedBranches.add(sBranch);
+  await ctx.persist(true);
+  log.success(`✅ Histórico de '${sBranch}' recriado em '${dBranch}'`, { branch: sBranch });
+
+  // 5. Recreate the remaining branches, reusing commits shared with branches already mirrored
+  await mirrorAdditionalBranches(ctx, sourceBranches, sBranch, dBranch, (branch) =>
+    mirrorHistory(ctx, branch.commit.sha, seenBlobs)
+  );
+
+  return {
+    files: seenBlobs.size,
+    commitMap: ctx.commits,
+    resolveCommit: (sourceSha) => mirrorHistory(ctx, sourceSha, seenBlobs),
+  };
+}
+
+// Compares the source branch heads with their mirrored destination commits and
+// reports every entry whose mode or type did not survive the copy.
+async function verifyTreeModes(ctx: MirrorContext, sourceBranches: SourceBranch[], result: MirrorResult) {
+  const { src, dst, log } = ctx;
+  log.stage("verify");
+  log.info("🔎 Verificando modos e tipos dos arquivos copiados...");
+  let changed = 0;
+  for (const branch of sourceBranches) {
+    const mirrored = result.commitMap.get(branch.commit.sha);
+    if (!mirrored) continue;
+    try {
+      const [source, dest] = await Promise.all([listTree(src, branch.commit.sha), listTree(dst, mirrored)]);
+      const destEntries = new Map(dest.entries.map((e) => [e.path, e]));
+      const prefix = ctx.options.destinationPath ? `${ctx.options.destinationPath}/` : "";
+      const diffs: string[] = [];
+      for (const e of await filterTree(src, ctx.paths, source.entries)) {
+        if (e.type === "tree") continue;
+        const d = destEntries.get(prefix + e.path);
+        if (!d) diffs.push(`${e.path}: ausente no destino`);
+        else if (d.mode !== e.mode || d.type !== e.type) diffs.push(`${e.path}: ${e.type} ${e.mode} → ${d.type} ${d.mode}`);
+      }
+      changed += diffs.length;
+      for (const diff of diffs.slice(0, 20)) log.warn(`⚠️ [${branch.name}] ${diff}`, { branch: branch.name });
+      if (diffs.length > 20) {
+        log.warn(`⚠️ [${branch.name}] ... e mais ${diffs.length - 20} entrada(s)`, { branch: branch.name });
+      }
+    } catch (e) {
+      log.warn(`⚠️ Não foi possível verificar o branch '${branch.name}': ${errorMessage(e)}`, { branch: branch.name });
+    }
+  }
+  if (changed === 0) log.success("✅ Modos e tipos preservados (executáveis, symlinks e submódulos)");
+}
+
+type GitRef = { ref: string; object: { sha: string; type: string } };
+
+// Destination name of a source branch
+function mapBranch(options: MirrorOptions, name: string): string {
+  const { prefix, suffix, rules } = options.branchMapping;
+  const rule = rules.find((r) => new RegExp(r.pattern).test(name));
+  const renamed = rule ? name.replace(new RegExp(rule.pattern), rule.replacement) : name;
+  return `${prefix}${renamed}${suffix}`;
+}
+
+type BranchTarget = { source: string; destination: string };
+
+// Where each selected branch lands, in source order: the source default branch on
+// `dBranch`, the others on their mapped name. A branch mapped to a name the default branch
+// or an earlier branch already takes is left out and listed in `collisions` with `owner`,
+// the branch that keeps the name.
+function planBranchTargets(
+  options: MirrorOptions,
+  sourceBranches: SourceBranch[],
+  sBranch: string,
+  dBranch: string,
+): { targets: BranchTarget[]; collisions: (BranchTarget & { owner: string })[] } {
+  const owners = new Map([[dBranch, sBranch]]);
+  const targets: BranchTarget[] = [{ source: sBranch, destination: dBranch }];
+  const collisions: (BranchTarget & { owner: string })[] = [];
+  for (const branch of sourceBranches) {
+    if (branch.name === sBranch) continue;
+    const destination = mapBranch(options, branch.name);
+    const owner = owners.get(destination);
+    if (owner !== undefined) {
+      collisions.push({ source: branch.name, destination, owner });
+    } else {
+      owners.set(destination, branch.name);
+      targets.push({ source: branch.name, destination });
+    }
+  }
+  return { targets, collisions };
+}
+
+// Source branches chosen by the branch patterns; the default branch is always mirrored
+function selectBranches(branches: SourceBranch[], patterns: string[], sBranch: string): SourceBranch[] {
+  return branches.filter((b) => b.name === sBranch || isBranchSelected(b.name, patterns));
+}
+
+// Destination branches no source branch maps to, leaving out `keep` (the default branch,
+// which GitHub refuses to delete) and the excluded names. With a mapping prefix or suffix,
+// branches without it belong to the destination and are never pruned.
+function prunableBranches(options: MirrorOptions, sourceNames: string[], destNames: string[], keep: string[]): string[] {
+  const kept = new Set([...sourceNames.map((name) => mapBranch(options, name)), ...keep, ...options.pruneBranchesExclude]);
+  const { prefix, suffix } = options.branchMapping;
+  return destNames.filter((name) => !kept.has(name) && name.startsWith(prefix) && name.endsWith(suffix));
+}
+
+async function pruneBranches(ctx: MirrorContext, sourceBranches: SourceBranch[], keep: string[]): Promise<number> {
+  const { dst, log } = ctx;
+  log.stage("prune");
+  log.info("✂️ Procurando branches que não existem mais na origem...");
+  const destBranches = await ghPaginate<SourceBranch>(repoPath(dst, "/branches"), dst.token);
+  const names = prunableBranches(ctx.options, sourceBranches.map((b) => b.name), destBranches.map((b) => b.name), keep);
+  let pruned = 0;
+  for (const name of names) {
+    await ctx.stopIfCancelled();
+    try {
+      ctx.changes.push(`heads/${name} (removido)`);
+      await ghFetch(repoPath(dst, `/git/refs/heads/${name}`), dst.token, { method: "DELETE" });
+      ctx.refs.set(`refs/heads/${name}`, null);
+      pruned++;
+      log.info(`✂️ Branch '${name}' removido do destino`, { branch: name });
+    } catch (e) {
+      rethrowIfFatal(e);
+      log.warn(`⚠️ Erro ao remover branch '${name}': ${errorMessage(e)}`, { branch: name, code: "branch_failed" });
+    }
+  }
+  log.info(`✂️ ${pruned} branch(es) removido(s)`);
+  return pruned;
+}
+
+type TagStats = { copied: number; annotated: number; pruned: number; failed: number };
+
+// Lightweight tags become refs to the mirrored commit; annotated tags are recreated
+// as tag objects with their original message and tagger.
+async function mirrorTags(ctx: MirrorContext, result: MirrorResult, prune: boolean): Promise<TagStats> {
+  const { src, dst, log } = ctx;
+  const stats: TagStats = { copied: 0, annotated: 0, pruned: 0, failed: 0 };
+
+  log.stage("tags");
+  log.info("🏷️ Obtendo tags da origem...");
+  const sourceTags: GitRef[] = (await ghFetch(repoPath(src, "/git/matching-refs/tags"), src.token)) || [];
+  log.info(`🏷️ ${sourceTags.length} tag(s) encontrada(s)`);
+
+  for (const tagRef of sourceTags) {
+    const name = tagRef.ref.replace(/^refs\/tags\//, "");
+    await ctx.stopIfCancelled();
+    try {
+      if (tagRef.object.type === "tag") {
+        const tag = await ghFetch(repoPath(src, `/git/tags/${tagRef.object.sha}`), src.token);
+        if (tag.object.type !== "commit") {
+          log.warn(`⚠️ Tag '${name}' aponta para um ${tag.object.type} e foi ignorada`);
+          continue;
+        }
+        const target = await result.resolveCommit(tag.object.sha, `tag: ${name}`);
+        const newTag = await ghFetch(repoPath(dst, "/git/tags"), dst.token, {
           method: "POST",
           body: JSON.stringify({
-            message: `📦 Mirror branch: ${branch.name}`,
-            tree: bTree.sha,
-            parents: [newCommit.sha],
+            tag: tag.tag,
+            message: tag.message,
+            object: target,
+            type: "commit",
+            ...(tag.tagger ? { tagger: tag.tagger } : {}),
           }),
         });
+        await upsertRef(ctx, `tags/${name}`, newTag.sha);
+        stats.annotated++;
+      } else {
+        const target = await result.resolveCommit(tagRef.object.sha, `tag: ${name}`);
+        await upsertRef(ctx, `tags/${name}`, target);
+      }
+      stats.copied++;
+    } catch (e) {
+      rethrowIfFatal(e);
+      stats.failed++;
+      log.warn(`⚠️ Erro ao copiar tag '${name}': ${errorMessage(e)}`, { code: "tag_failed" });
+    }
+  }
+
+  if (prune) {
+    const names = new Set(sourceTags.map((t) => t.ref));
+    const destTags: GitRef[] = (await ghFetch(repoPath(dst, "/git/matching-refs/tags"), dst.token)) || [];
+    for (const tagRef of destTags) {
+      if (names.has(tagRef.ref) || isBackupRef(tagRef.ref)) continue;
+      const name = tagRef.ref.replace(/^refs\/tags\//, "");
+      await ctx.stopIfCancelled();
+      try {
+        ctx.changes.push(`tags/${name} (removida)`);
+        await ghFetch(repoPath(dst, `/git/refs/tags/${name}`), dst.token, { method: "DELETE" });
+        ctx.refs.set(tagRef.ref, null);
+        stats.pruned++;
+        log.info(`🏷️ Tag '${name}' removida do destino`);
+      } catch (e) {
+        rethrowIfFatal(e);
+        log.warn(`⚠️ Erro ao remover tag '${name}': ${errorMessage(e)}`, { code: "tag_failed" });
+      }
+    }
+  }
+
+  log.info(`🏷️ ${stats.copied} tag(s) copiada(s) (${stats.annotated} anotada(s))`);
+  return stats;
+}
+
+type ReleaseAsset = { id: number; name: string; label: string | null; content_type: string; size: number };
+
+type Release = {
+  id: number;
+  tag_name: string;
+  target_commitish: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  upload_url: string;
+  assets: ReleaseAsset[];
+};
+
+// Streams a release asset from the source download endpoint straight into the destination
+// upload endpoint. A retried upload downloads the asset again, since the stream is spent.
+async function copyReleaseAsset(ctx: MirrorContext, asset: ReleaseAsset, uploadUrl: string) {
+  const { src, dst } = ctx;
+  const download = async () => {
+    const res = await ghRequest(`https://api.github.com${repoPath(src, `/releases/assets/${asset.id}`)}`, src.token, {
+      headers: {
+        Accept: "application/octet-stream",
+        Authorization: `Bearer ${src.token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`download de '${asset.name}' falhou (${res.status})`);
+    }
+    return res.body;
+  };
+
+  const params = new URLSearchParams({ name: asset.name });
+  if (asset.label) params.set("label", asset.label);
+  const upload = await ghRequest(`${uploadUrl.replace(/\{.*\}$/, "")}?${params}`, dst.token, async () => ({
+    method: "POST",
+    headers: {
+      Accept: "application/vnd.github+json",
+      Authorization: `Bearer ${dst.token}`,
+      "X-GitHub-Api-Version": "2022-11-28",
+      "Content-Type": asset.content_type || "application/octet-stream",
+      "Content-Length": String(asset.size),
+    },
+    body: await download(),
+  }));
+  if (!upload.ok) {
+    throw new Error(`upload de '${asset.name}' falhou (${upload.status}): ${await upload.text()}`);
+  }
+}
+
+type ReleaseStats = { copied: number; assets: number; failed: number };
+
+// Recreates source releases (notes, draft/prerelease flags and assets) against the mirrored tags.
+async function mirrorReleases(ctx: MirrorContext): Promise<ReleaseStats> {
+  const { src, dst, log } = ctx;
+  const stats: ReleaseStats = { copied: 0, assets: 0, failed: 0 };
+
+  log.stage("releases");
+  log.info("🚀 Obtendo releases da origem...");
+  const sourceReleases = await ghPaginate<Release>(repoPath(src, "/releases"), src.token);
+  const destReleases = await ghPaginate<Release>(repoPath(dst, "/releases"), dst.token);
+  const existing = new Map(destReleases.map((r) => [r.tag_name, r]));
+  log.info(`🚀 ${sourceReleases.length} release(s) encontrada(s)`);
+
+  // Oldest first, so the destination lists them in the same order as the source
+  for (const release of [...sourceReleases].reverse()) {
+    const label = release.name || release.tag_name;
+    await ctx.stopIfCancelled();
+    try {
+      const payload = {
+        tag_name: release.tag_name,
+        name: release.name,
+        body: release.body,
+        draft: release.draft,
+        prerelease: release.prerelease,
+        // Drafts may point at a tag that does not exist yet
+        ...(release.draft ? { target_commitish: release.target_commitish } : {}),
+      };
+      const current = existing.get(release.tag_name);
+      ctx.changes.push(`release ${release.tag_name}`);
+      const target: Release = current
+        ? await ghFetch(repoPath(dst, `/releases/${current.id}`), dst.token, {
+          method: "PATCH",
+          body: JSON.stringify(payload),
+        })
+        : await ghFetch(repoPath(dst, "/releases"), dst.token, {
+          method: "POST",
+          body: JSON.stringify(payload),
+        });
 
-        // Create branch ref
+      let assetErrors = 0;
+      for (const asset of release.assets) {
         try {
-          await ghFetch(`/repos/${dOwner}/${dRepo}/git/refs`, destToken, {
-            method: "POST",
-            body: JSON.stringify({ ref: `refs/heads/${branch.name}`, sha: bCommit.sha }),
-          });
-        } catch {
-          await ghFetch(`/repos/${dOwner}/${dRepo}/git/refs/heads/${branch.name}`, destToken, {
-            method: "PATCH",
-            body: JSON.stringify({ sha: bCommit.sha, force: true }),
-          });
+          const stale = target.assets.find((a) => a.name === asset.name);
+          if (stale) {
+            await ghFetch(repoPath(dst, `/releases/assets/${stale.id}`), dst.token, { method: "DELETE" });
+          }
+          await copyReleaseAsset(ctx, asset, target.upload_url);
+          stats.assets++;
+        } catch (e) {
+          rethrowIfFatal(e);
+          assetErrors++;
+          log.warn(`⚠️ Release '${label}': ${errorMessage(e)}`, { code: "release_failed" });
         }
+      }
 
-        log(`🔀 Branch '${branch.name}' copiado`);
-      } catch (e: any) {
-        log(`⚠️ Erro ao copiar branch '${branch.name}': ${e.message}`);
+      if (assetErrors > 0) {
+        stats.failed++;
+        log.warn(`⚠️ Release '${label}' copiada com ${assetErrors} asset(s) faltando`, { code: "release_failed" });
+      } else {
+        stats.copied++;
+        log.success(`✅ Release '${label}' copiada (${release.assets.length} asset(s))`);
       }
+    } catch (e) {
+      rethrowIfFatal(e);
+      stats.failed++;
+      log.error(`❌ Erro ao copiar release '${label}': ${errorMessage(e)}`, { code: "release_failed" });
+    }
+  }
+
+  return stats;
+}
+
+// Connects a run to its persisted job: the checkpoint to resume from and where to save progress.
+type JobHandle = {
+  resumeFrom: Partial<Checkpoint> | null;
+  save: (checkpoint: Checkpoint) => Promise<void>;
+  cancelRequested: () => Promise<boolean>;
+  // Backup taken by an earlier attempt of the same job, if any
+  backup: MirrorBackup | null;
+  saveBackup: (backup: MirrorBackup) => Promise<void>;
+};
+
+function checkpointOf(ctx: MirrorContext): Checkpoint {
+  return {
+    blobs: [...ctx.knownBlobs],
+    commits: Object.fromEntries(ctx.commits),
+    trees: Object.fromEntries(ctx.trees),
+    completedBranches: [...ctx.completedBranches],
+    cleanCommit: ctx.cleanCommit,
+    defaultHead: ctx.defaultHead,
+    emptyDestination: ctx.emptyDestination,
+    previousDefaultBranch: ctx.previousDefaultBranch,
+    refs: Object.fromEntries(ctx.refs),
+  };
+}
+
+type RepoInfo = {
+  full_name: string;
+  default_branch: string;
+  description: string | null;
+  homepage: string | null;
+  topics?: string[];
+};
+
+// Creates the destination under the token's user, or under the organization named in the
+// destination URL, with the source's description, homepage and topics. The new repository
+// is empty, so the mirror then bootstraps it like any other empty destination.
+async function createDestinationRepo(
+  dst: RepoRef,
+  source: RepoInfo,
+  visibility: MirrorOptions["destinationVisibility"],
+): Promise<RepoInfo> {
+  try {
+    const user = await ghFetch("/user", dst.token);
+    const path = user.login.toLowerCase() === dst.owner.toLowerCase() ? "/user/repos" : `/orgs/${dst.owner}/repos`;
+    const created: RepoInfo = await ghFetch(path, dst.token, {
+      method: "POST",
+      body: JSON.stringify({
+        name: dst.repo,
+        private: visibility === "private",
+        description: source.description ?? undefined,
+        homepage: source.homepage || undefined,
+        auto_init: false,
+      }),
+    });
+    if (source.topics?.length) {
+      await ghFetch(repoPath(dst, "/topics"), dst.token, {
+        method: "PUT",
+        body: JSON.stringify({ names: source.topics }),
+      });
     }
+    return created;
+  } catch (e) {
+    if (errorCode(e) === "rate_limited") throw e;
+    throw new MirrorError("dest_unreachable", `Não foi possível criar ${dst.owner}/${dst.repo}: ${errorMessage(e)}`);
   }
+}
 
-  log("✅ Mirror concluído com sucesso!");
-  log(`📊 Resumo: ${blobs.length} arquivos, ${sourceBranches.length} branch(es) copiado(s)`);
+// GitHub's git database API rejects writes to a repository without commits, so an empty
+// destination first gets a placeholder commit through the contents API. Its default branch
+// is then renamed after the source's. Returns the destination default branch name.
+async function initEmptyDestination(ctx: MirrorContext, dBranch: string, sBranch: string): Promise<string> {
+  const { dst, log } = ctx;
+  // Already done when resuming
+  if (!(await destBranchHead(dst, dBranch))) {
+    await ctx.stopIfCancelled();
+    log.info("🆕 Criando commit inicial no destino vazio...");
+    await ghFetch(repoPath(dst, "/contents/.mirror"), dst.token, {
+      method: "PUT",
+      body: JSON.stringify({ message: "🆕 Inicializar repositório para mirror", content: btoa("mirror in progress") }),
+    });
+    await ctx.persist(true);
+  }
+  return sBranch === dBranch ? dBranch : renameDefaultBranch(ctx, dBranch, sBranch);
+}
 
-  return logs;
+async function renameDefaultBranch(ctx: MirrorContext, from: string, to: string): Promise<string> {
+  const { dst, log } = ctx;
+  await ghFetch(repoPath(dst, `/branches/${from}/rename`), dst.token, {
+    method: "POST",
+    body: JSON.stringify({ new_name: to }),
+  });
+  log.info(`🔀 Branch padrão do destino renomeado de '${from}' para '${to}', como na origem`);
+  return to;
+}
+
+async function setDefaultBranch(dst: RepoRef, name: string) {
+  await ghFetch(repoPath(dst, ""), dst.token, {
+    method: "PATCH",
+    body: JSON.stringify({ default_branch: name }),
+  });
+}
+
+// Gives the destination default branch the source's name before anything is written, so
+// each source branch lands on the destination branch with the same name. "rename" falls
+// back to switching when the destination already has a branch with the source's name.
+// Returns the destination default branch name.
+async function alignDefaultBranch(ctx: MirrorContext, dBranch: string, sBranch: string): Promise<string> {
+  const { dst, log, options } = ctx;
+  if (dBranch === sBranch) return dBranch;
+  if (options.defaultBranch === "keep") {
+    const stale = await destBranchHead(dst, sBranch);
+    log.info(
+      `🔀 O branch padrão '${sBranch}' da origem será copiado para '${dBranch}'` +
+        (stale ? `; o branch '${sBranch}' do destino não é alterado` : ""),
+    );
+    return dBranch;
+  }
+
+  await ctx.stopIfCancelled();
+  const head = (await destBranchHead(dst, dBranch))!;
+  const existing = await destBranchHead(dst, sBranch);
+  ctx.previousDefaultBranch = dBranch;
+  if (options.defaultBranch === "rename" && !existing) {
+    await renameDefaultBranch(ctx, dBranch, sBranch);
+    ctx.changes.push(`heads/${dBranch}`, `heads/${sBranch}`);
+    ctx.refs.set(`refs/heads/${dBranch}`, null);
+    ctx.refs.set(`refs/heads/${sBranch}`, head);
+  } else {
+    if (!existing) await upsertRef(ctx, `heads/${sBranch}`, head);
+    await setDefaultBranch(dst, sBranch);
+    log.info(`🔀 Branch padrão do destino alterado de '${dBranch}' para '${sBranch}'; '${dBranch}' foi mantido`);
+  }
+  await ctx.persist(true);
+  return sBranch;
+}
+
+// Backups made as tags must survive later runs (and tag pruning)
+function isBackupRef(ref: string) {
+  return ref.startsWith("refs/tags/mirror-backup/");
+}
+
+// Copies every destination branch and tag ref under refs/mirror-backup/<timestamp>/ so
+// the previous state stays reachable after the mirror force-moves them. Repositories
+// that reject the custom namespace get backup tags (tags/mirror-backup/<timestamp>/...).
+async function backupDestination(dst: RepoRef): Promise<MirrorBackup | null> {
+  const refs: GitRef[] = [
+    ...((await ghFetch(repoPath(dst, "/git/matching-refs/heads"), dst.token)) || []),
+    ...((await ghFetch(repoPath(dst, "/git/matching-refs/tags"), dst.token)) || []),
+  ].filter((r) => !isBackupRef(r.ref));
+  if (refs.length === 0) return null;
+
+  const createdAt = new Date().toISOString();
+  const stamp = createdAt.replace(/[:.]/g, "-");
+  const create = (namespace: string, ref: GitRef) =>
+    ghFetch(repoPath(dst, "/git/refs"), dst.token, {
+      method: "POST",
+      body: JSON.stringify({ ref: `${namespace}/${ref.ref.replace(/^refs\//, "")}`, sha: ref.object.sha }),
+    });
+
+  let namespace = `refs/mirror-backup/${stamp}`;
+  try {
+    try {
+      await create(namespace, refs[0]);
+    } catch (e) {
+      if (errorCode(e) !== "github_error") throw e;
+      namespace = `refs/tags/mirror-backup/${stamp}`;
+      await create(namespace, refs[0]);
+    }
+    for (const ref of refs.slice(1)) await create(namespace, ref);
+  } catch (e) {
+    if (errorCode(e) === "rate_limited") throw e;
+    throw new MirrorError("backup_failed", `Não foi possível criar o backup do destino: ${errorMessage(e)}`);
+  }
+  return { namespace, createdAt, refs: refs.map((r) => ({ ref: r.ref, sha: r.object.sha })) };
+}
+
+// Logs what a cancelled run left behind, so the user knows whether to resume or roll back.
+function reportDestinationState(ctx: MirrorContext, dBranch: string) {
+  const { log } = ctx;
+  log.warn("⏹️ Mirror cancelado. Estado em que o destino ficou:", { code: "cancelled" });
+
+  const changes = [...new Set(ctx.changes)];
+  if (changes.length === 0) {
+    log.info("📍 Nenhum branch, tag ou release do destino foi alterado");
+  } else {
+    const list = changes.slice(0, 20).join(", ") + (changes.length > 20 ? `, ... (+${changes.length - 20})` : "");
+    log.warn(`📍 ${changes.length} ref(s)/release(s) alterado(s) nesta execução: ${list}`);
+  }
+
+  if (ctx.options.mode === "snapshot" && ctx.cleanCommit && !ctx.defaultHead) {
+    log.warn(
+      `📍 Branch '${dBranch}' contém apenas o commit de limpeza (${ctx.cleanCommit.slice(0, 7)}); o conteúdo anterior continua no histórico`,
+    );
+  } else if (ctx.defaultHead) {
+    log.info(`📍 Branch '${dBranch}' já contém o mirror (${ctx.defaultHead.slice(0, 7)})`);
+  } else if (!ctx.completedBranches.size) {
+    log.info(`📍 Branch '${dBranch}' não foi alterado`);
+  }
+  if (ctx.completedBranches.size > 0) {
+    log.info(`📍 Branches já copiados: ${[...ctx.completedBranches].join(", ")}`);
+  }
+  log.info(
+    `💾 ${ctx.knownBlobs.size} arquivo(s) e ${ctx.commits.size} commit(s) já enviados ficam no checkpoint; retome o job para continuar de onde parou`,
+  );
+}
+
+async function mirrorRepo(
+  sourceUrl: string,
+  destUrl: string,
+  sourceToken: string,
+  destToken: string,
+  options: MirrorOptions,
+  log: Logger,
+  job: JobHandle,
+): Promise<JobCounts> {
+  // Pauses are logged so a slow run does not look stuck
+  const onRateLimit = (label: string) => ({ scope, until }: RateLimitNotice) =>
+    log.warn(
+      `⏳ Limite ${scope === "primary" ? "de requisições" : "secundário"} do GitHub atingido (${label}); pausado até ${formatTime(until)}`,
+      { code: "rate_limited" },
+    );
+  const unwatch = sourceToken === destToken
+    ? [watchRateLimits(sourceToken, onRateLimit("origem e destino"))]
+    : [watchRateLimits(sourceToken, onRateLimit("origem")), watchRateLimits(destToken, onRateLimit("destino"))];
+  try {
+    return await runMirror(sourceUrl, destUrl, sourceToken, destToken, options, log, job);
+  } finally {
+    for (const stop of unwatch) stop();
+  }
+}
+
+async function runMirror(
+  sourceUrl: string,
+  destUrl: string,
+  sourceToken: string,
+  destToken: string,
+  options: MirrorOptions,
+  log: Logger,
+  job: JobHandle,
+): Promise<JobCounts> {
+  // 1. Validate source
+  log.info("🔍 Validando repositório de origem...");
+  const { owner: sOwner, repo: sRepo } = parseRepoUrl(sourceUrl);
+  let sourceData: any;
+  try {
+    sourceData = await ghFetch(`/repos/${sOwner}/${sRepo}`, sourceToken);
+  } catch (e: any) {
+    if (errorCode(e) === "rate_limited") throw e;
+    throw new MirrorError("source_unreachable", `Erro ao acessar origem (${sOwner}/${sRepo}): ${e.message}`);
+  }
+  const sBranch = sourceData.default_branch;
+  log.success(`✅ Origem: ${sourceData.full_name} (branch: ${sBranch}, ${sourceData.private ? "privado" : "público"})`);
+
+  // 2. Validate dest
+  log.info("🔍 Validando repositório de destino...");
+  const { owner: dOwner, repo: dRepo } = parseRepoUrl(destUrl);
+  let destData: any;
+  try {
+    destData = await ghFetch(`/repos/${dOwner}/${dRepo}`, destToken);
+  } catch (e: any) {
+    if (errorCode(e) === "rate_limited") throw e;
+    if (errorCode(e) !== "not_found" || !options.createDestination) {
+      const hint = errorCode(e) === "not_found" ? " Ative \"Criar o repositório se ele não existir\" para criá-lo." : "";
+      throw new MirrorError("dest_unreachable", `Erro ao acessar destino (${dOwner}/${dRepo}): ${e.message}${hint}`);
+    }
+    log.info(`🆕 Criando o repositório ${dOwner}/${dRepo}...`);
+    destData = await createDestinationRepo(
+      { owner: dOwner, repo: dRepo, token: destToken },
+      sourceData,
+      options.destinationVisibility,
+    );
+    log.success(`🆕 Repositório ${destData.full_name} criado`);
+  }
+  let dBranch: string = destData.default_branch;
+  const destBranches = await ghFetch(`/repos/${dOwner}/${dRepo}/branches?per_page=1`, destToken);
+  log.success(`✅ Destino: ${destData.full_name} (branch: ${dBranch}, ${destData.private ? "privado" : "público"})`);
+
+  const resume = job.resumeFrom;
+  let lastSave = 0;
+  const ctx: MirrorContext = {
+    src: { owner: sOwner, repo: sRepo, token: sourceToken },
+    dst: { owner: dOwner, repo: dRepo, token: destToken },
+    log,
+    knownBlobs: new Set(resume?.blobs ?? []),
+    transfer: { copied: 0, skipped: 0 },
+    options,
+    skippedPaths: [],
+    paths: createPathFilter(options),
+    commits: new Map(Object.entries(resume?.commits ?? {})),
+    trees: new Map(Object.entries(resume?.trees ?? {})),
+    completedBranches: new Set(resume?.completedBranches ?? []),
+    cleanCommit: resume?.cleanCommit,
+    defaultHead: resume?.defaultHead,
+    emptyDestination: resume?.emptyDestination ?? destBranches.length === 0,
+    previousDefaultBranch: resume?.previousDefaultBranch,
+    persist: async (force = false) => {
+      if (!force && Date.now() - lastSave < 5000) return;
+      lastSave = Date.now();
+      await job.save(checkpointOf(ctx));
+    },
+    stopIfCancelled: async () => {
+      if (!(await job.cancelRequested())) return;
+      await ctx.persist(true);
+      throw new MirrorError("cancelled", "Mirror cancelado pelo usuário");
+    },
+    changes: [],
+    refs: new Map(Object.entries(resume?.refs ?? {})),
+  };
+  if (resume) {
+    log.info(
+      `⏩ Retomando a partir do último checkpoint: ${ctx.knownBlobs.size} arquivo(s), ${ctx.commits.size} commit(s) e ${ctx.completedBranches.size} branch(es) já copiados`,
+    );
+  }
+
+  // Destination branch receiving the source default branch
+  let target = dBranch;
+  try {
+    // 3. Get all branches from source
+    log.stage("branches");
+    log.info("📋 Obtendo branches da origem...");
+    const allBranches = await ghPaginate<SourceBranch>(repoPath(ctx.src, "/branches"), sourceToken);
+    const sourceBranches = selectBranches(allBranches, options.branchPatterns, sBranch);
+    if (sourceBranches.length < allBranches.length) {
+      log.info(`📋 ${allBranches.length} branch(es) encontrado(s), ${sourceBranches.length} selecionado(s) pelos padrões`);
+    } else {
+      log.info(`📋 ${sourceBranches.length} branch(es) encontrado(s)`);
+    }
+    if (!isBranchSelected(sBranch, options.branchPatterns)) {
+      log.info(`📋 O branch padrão '${sBranch}' é copiado mesmo sem corresponder aos padrões`);
+    }
+
+    if (options.incremental) {
+      log.stage("compare");
+      log.info("♻️ Comparando com o conteúdo atual do destino...");
+      const known = await seedKnownBlobs(ctx, [dBranch, ...sourceBranches.map((b) => mapBranch(options, b.name))]);
+      log.info(`♻️ ${known} arquivo(s) já presentes no destino serão reaproveitados`);
+    }
+
+    // Nothing in the destination is overwritten before this point
+    log.stage("backup");
+    const mappedDefault = mapBranch(options, sBranch);
+    if (ctx.emptyDestination) {
+      log.info("🆕 Destino vazio, nada para salvar");
+      dBranch = await initEmptyDestination(ctx, dBranch, mappedDefault);
+    } else if (job.backup) {
+      log.info(`🛟 Backup do destino já feito em ${job.backup.namespace} (${job.backup.refs.length} ref(s))`);
+    } else {
+      await ctx.stopIfCancelled();
+      log.info("🛟 Fazendo backup dos branches e tags do destino...");
+      const backup = await backupDestination(ctx.dst);
+      if (backup) {
+        await job.saveBackup(backup);
+        log.success(`🛟 ${backup.refs.length} ref(s) do destino salvas em ${backup.namespace}`);
+      } else {
+        log.info("🛟 Destino sem branches nem tags, nada para salvar");
+      }
+    }
+
+    // A mapping that renames the default branch gives it a branch of its own, and the
+    // destination default branch is left alone
+    if (ctx.emptyDestination || mappedDefault === sBranch) {
+      if (!ctx.emptyDestination) dBranch = await alignDefaultBranch(ctx, dBranch, sBranch);
+      target = dBranch;
+    } else {
+      target = mappedDefault;
+      log.info(
+        `🔀 O branch padrão '${sBranch}' da origem será copiado para '${target}'; o branch padrão '${dBranch}' do destino não é alterado`,
+      );
+    }
+
+    const result = options.mode === "history"
+      ? await mirrorWithHistory(ctx, sourceBranches, sBranch, target)
+      : await mirrorSnapshot(ctx, sourceData.full_name, sourceBranches, sBranch, target);
+    // Branches left out by the patterns still exist in the source, so they are not pruned
+    const prunedBranches = options.pruneBranches
+      ? await pruneBranches(ctx, allBranches, [target, dBranch, destData.default_branch])
+      : 0;
+
+    await verifyTreeModes(ctx, sourceBranches, result);
+
+    // Source tags would overwrite the destination's own tags with the same name
+    let tags: TagStats | null = null;
+    if (options.destinationPath) log.info("🏷️ Importação em subdiretório: as tags da origem não são copiadas");
+    else tags = await mirrorTags(ctx, result, options.pruneTags);
+    const releases = options.releases ? await mirrorReleases(ctx) : null;
+
+    log.stage("done");
+    if (ctx.skippedPaths.length > 0) {
+      log.warn(`⚠️ Mirror concluído com ${ctx.skippedPaths.length} diretório(s) da origem ignorado(s)`);
+    } else {
+      log.success("✅ Mirror concluído com sucesso!");
+    }
+    let summary = `${result.files} arquivos, ${sourceBranches.length} branch(es) copiado(s)`;
+    if (ctx.paths.excluded.size > 0) summary += ` (${ctx.paths.excluded.size} caminho(s) excluído(s) pelas regras)`;
+    if (prunedBranches > 0) summary += ` e ${prunedBranches} removido(s)`;
+    // Commits skipped by a subdirectory split share their ancestor's destination commit
+    const commitCount = new Set([...result.commitMap.values()].filter(Boolean)).size;
+    if (options.mode === "history") summary = `${commitCount} commits, ${summary}`;
+    if (options.incremental) summary += ` (${ctx.transfer.copied} transferido(s), ${ctx.transfer.skipped} reaproveitado(s))`;
+    if (tags) {
+      summary += `, ${tags.copied} tag(s) copiada(s)`;
+      if (tags.pruned > 0) summary += `, ${tags.pruned} removida(s)`;
+      if (tags.failed > 0) summary += `, ${tags.failed} com erro`;
+    }
+    if (releases) {
+      summary += `, ${releases.copied} release(s) copiada(s) com ${releases.assets} asset(s)`;
+      if (releases.failed > 0) summary += `, ${releases.failed} release(s) com erro`;
+    }
+    log.info(`📊 Resumo: ${summary}`);
+
+    // The final ref state is what a rollback checks the destination against
+    await ctx.persist(true);
+    return {
+      files: result.files,
+      commits: commitCount,
+      branches: sourceBranches.length,
+      tags: tags?.copied,
+      releases: releases?.copied,
+    };
+  } catch (e) {
+    if (errorCode(e) === "cancelled") reportDestinationState(ctx, target);
+    await ctx.persist(true);
+    throw e;
+  }
+}
+
+// Background worker: processes a job to completion whether or not a client is still
+// listening. Every event is recorded on the job row and forwarded to `listen`.
+async function runJob(
+  job: MirrorJob,
+  sourceToken: string,
+  destToken: string,
+  resumed: boolean,
+  listen: (event: MirrorEvent) => void,
+) {
+  const recorder = createJobRecorder(job);
+  const emit = (event: MirrorEvent) => {
+    recorder.record(event);
+    listen(event);
+  };
+  const handle: JobHandle = {
+    resumeFrom: resumed ? job.checkpoint : null,
+    save: recorder.saveCheckpoint,
+    cancelRequested: recorder.cancelRequested,
+    backup: resumed ? job.backup : null,
+    saveBackup: recorder.saveBackup,
+  };
+
+  await recorder.start();
+  listen({ type: "job", jobId: job.id, resumed });
+  try {
+    const counts = await mirrorRepo(
+      job.source_url,
+      job.dest_url,
+      sourceToken,
+      destToken,
+      parseOptions(job.options),
+      createLogger(emit),
+      handle,
+    );
+    emit({ type: "done" });
+    await recorder.finish("completed", { counts });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Erro desconhecido";
+    console.error("Mirror error:", message);
+    const code = errorCode(error);
+    emit({ type: "error", message, code });
+    await recorder.finish(code === "cancelled" ? "cancelled" : "failed", { error: message });
+  }
+}
+
+// Number of commits reachable from `sha`, read from the pagination links of a one-per-page listing.
+async function countCommits(repo: RepoRef, sha: string): Promise<number> {
+  const res = await ghRequest(`https://api.github.com${repoPath(repo, `/commits?sha=${sha}&per_page=1`)}`, repo.token, {
+    headers: { Accept: "application/vnd.github+json", Authorization: `Bearer ${repo.token}` },
+  });
+  await res.body?.cancel();
+  if (!res.ok) return 0;
+  const last = res.headers.get("link")?.match(/[?&]page=(\d+)>; rel="last"/);
+  return last ? Number(last[1]) : 1;
+}
+
+async function rateLimitOf(token: string): Promise<PreflightRateLimit> {
+  // /rate_limit itself does not count against the limit
+  const { resources } = await ghFetch("/rate_limit", token);
+  return { limit: resources.core.limit, remaining: resources.core.remaining, reset: resources.core.reset * 1000 };
+}
+
+function pathList(paths: string[]): PreflightPaths {
+  return { count: paths.length, paths: paths.slice(0, 100) };
+}
+
+// Dry run: reads both repositories and reports what a mirror with `options` would do,
+// without writing anything to the destination.
+async function preflight(
+  sourceUrl: string,
+  destUrl: string,
+  sourceToken: string,
+  destToken: string,
+  options: MirrorOptions,
+): Promise<MirrorPreflight> {
+  const src: RepoRef = { ...parseRepoUrl(sourceUrl), token: sourceToken };
+  const dst: RepoRef = { ...parseRepoUrl(destUrl), token: destToken };
+  const [sourceData, destData] = await Promise.all([
+    ghFetch(repoPath(src, ""), src.token).catch((e) => {
+      if (errorCode(e) === "rate_limited") throw e;
+      throw new MirrorError("source_unreachable", `Erro ao acessar origem (${src.owner}/${src.repo}): ${errorMessage(e)}`);
+    }),
+    ghFetch(repoPath(dst, ""), dst.token).catch((e) => {
+      if (errorCode(e) === "rate_limited") throw e;
+      // A missing destination is fine when the mirror is going to create it
+      if (errorCode(e) === "not_found" && options.createDestination) return null;
+      throw new MirrorError("dest_unreachable", `Erro ao acessar destino (${dst.owner}/${dst.repo}): ${errorMessage(e)}`);
+    }),
+  ]);
+  const sBranch: string = sourceData.default_branch;
+  let dBranch: string = destData?.default_branch ?? sBranch;
+  const warnings: string[] = [];
+  if (!destData) {
+    const visibility = options.destinationVisibility === "private" ? "privado" : "público";
+    warnings.push(`O repositório ${dst.owner}/${dst.repo} não existe e será criado (${visibility})`);
+  }
+
+  const [allBranches, destBranches] = await Promise.all([
+    ghPaginate<SourceBranch>(repoPath(src, "/branches"), src.token),
+    destData ? ghPaginate<SourceBranch>(repoPath(dst, "/branches"), dst.token) : [],
+  ]);
+  const sourceBranches = selectBranches(allBranches, options.branchPatterns, sBranch);
+  if (sourceBranches.length < allBranches.length) {
+    warnings.push(`${allBranches.length - sourceBranches.length} branch(es) da origem não correspondem aos padrões e não serão copiados`);
+  }
+  const destNames = new Set(destBranches.map((b) => b.name));
+  const mappedDefault = mapBranch(options, sBranch);
+  if (destData && destNames.size === 0) {
+    warnings.push(`O destino está vazio: ele recebe um commit inicial e o branch padrão passa a se chamar '${mappedDefault}'`);
+  }
+  if (destNames.size === 0) dBranch = mappedDefault;
+
+  // Destination branches once the default branch is renamed, and the one whose files the
+  // source default branch replaces
+  const existing = new Set(destNames);
+  let replaced = dBranch;
+  if (destNames.size > 0 && mappedDefault !== sBranch) {
+    warnings.push(
+      `O branch padrão '${sBranch}' da origem será copiado para '${mappedDefault}'; o branch padrão '${dBranch}' do destino não é alterado`,
+    );
+    dBranch = replaced = mappedDefault;
+  } else if (destNames.size > 0 && dBranch !== sBranch) {
+    if (options.defaultBranch === "keep") {
+      // Always the case for imports, which never change the destination default branch
+      const into = options.destinationPath ? `importado em '${options.destinationPath}/' de` : "copiado para";
+      warnings.push(
+        `O branch padrão '${sBranch}' da origem será ${into} '${dBranch}'` +
+          (destNames.has(sBranch) ? `; o branch '${sBranch}' do destino não é alterado` : ""),
+      );
+    } else if (options.defaultBranch === "rename" && !destNames.has(sBranch)) {
+      warnings.push(`O branch padrão do destino será renomeado de '${dBranch}' para '${sBranch}'`);
+      existing.delete(dBranch);
+      existing.add(sBranch);
+      dBranch = sBranch;
+    } else {
+      warnings.push(`O branch padrão do destino passará a ser '${sBranch}'; '${dBranch}' é mantido`);
+      if (destNames.has(sBranch)) replaced = sBranch;
+      dBranch = sBranch;
+    }
+  }
+
+  const plan = planBranchTargets(options, sourceBranches, sBranch, dBranch);
+  for (const { source, destination, owner } of plan.collisions) {
+    warnings.push(`O branch '${source}' da origem será ignorado: '${destination}' recebe no destino o branch '${owner}' da origem`);
+  }
+  const targets = new Set(plan.targets.map((t) => t.destination));
+  const overwritten = [...targets].filter((name) => existing.has(name));
+  const created = [...targets].filter((name) => !existing.has(name));
+  const pruned = options.pruneBranches
+    ? prunableBranches(options, allBranches.map((b) => b.name), [...existing], [dBranch, destData?.default_branch ?? dBranch])
+    : [];
+  const orphaned = [...existing].filter((name) => !targets.has(name) && !pruned.includes(name));
+
+  // Distinct blobs across every source branch tip
+  const blobs = new Map<string, number>();
+  const submodules = new Set<string>();
+  let defaultTree: TreeEntry[] = [];
+  const paths = createPathFilter(options);
+  for (const branch of sourceBranches) {
+    const listing = await listTree(src, branch.commit.sha);
+    const { skipped } = listing;
+    const entries = await filterTree(src, paths, listing.entries);
+    if (skipped.length > 0) {
+      warnings.push(`Árvore do branch '${branch.name}' incompleta: ${skipped.length} diretório(s) não puderam ser lidos`);
+    }
+    for (const e of entries) {
+      if (e.type === "blob") blobs.set(e.sha, e.size ?? 0);
+      else if (e.type === "commit") submodules.add(e.path);
+    }
+    if (branch.name === sBranch) defaultTree = entries;
+    if (paths.root && !entries.some((e) => e.type !== "tree")) {
+      warnings.push(
+        branch.name === sBranch
+          ? `O diretório '${paths.root}' não existe no branch padrão '${sBranch}'; o mirror vai falhar`
+          : `O diretório '${paths.root}' não existe no branch '${branch.name}', que será ignorado`,
+      );
+    }
+  }
+
+  // Files the destination default branch gains, changes and loses
+  const destListing = destNames.has(replaced) ? (await listTree(dst, replaced)).entries : [];
+  // An import only replaces its directory, so that is what the source tree is compared with
+  const importPrefix = options.destinationPath ? `${options.destinationPath}/` : "";
+  const destTree = importPrefix
+    ? destListing.filter((e) => e.path.startsWith(importPrefix)).map((e) => ({ ...e, path: e.path.slice(importPrefix.length) }))
+    : destListing;
+  if (importPrefix) warnings.push(`Apenas '${importPrefix}' é substituído no destino; os demais arquivos são mantidos`);
+  const files = (entries: TreeEntry[]) => new Map(entries.filter((e) => e.type !== "tree").map((e) => [e.path, e]));
+  const before = files(destTree);
+  const after = files(defaultTree);
+  const added = [...after.keys()].filter((path) => !before.has(path));
+  const removed = [...before.keys()].filter((path) => !after.has(path));
+  const changed = [...after.values()]
+    .filter((e) => {
+      const old = before.get(e.path);
+      return old && (old.sha !== e.sha || old.mode !== e.mode);
+    })
+    .map((e) => e.path);
+
+  let toCopy = blobs.size;
+  if (options.incremental) {
+    const known = new Set(destTree.map((e) => e.sha));
+    toCopy = [...blobs.keys()].filter((sha) => !known.has(sha)).length;
+  }
+
+  const tags: GitRef[] = options.destinationPath
+    ? []
+    : (await ghFetch(repoPath(src, "/git/matching-refs/tags"), src.token)) || [];
+  const releases = options.releases ? await ghPaginate<Release>(repoPath(src, "/releases"), src.token) : [];
+  const assets = releases.reduce((sum, r) => sum + r.assets.length, 0);
+
+  // Rough call counts: one GET per blob on the source and one POST per blob on the
+  // destination, plus tree, commit and ref writes per branch and per tag.
+  const branchCount = sourceBranches.length;
+  let sourceCalls = 4 + branchCount + toCopy + tags.length * 2 + releases.length + assets;
+  let destCalls = 6 + toCopy + branchCount * 4 + tags.length * 2 + releases.length * 2 + assets * 2 + pruned.length;
+  if (options.mode === "history") {
+    const commits = await countCommits(src, sBranch);
+    sourceCalls += Math.ceil(commits / 100) + commits;
+    destCalls += commits * 2;
+    warnings.push(
+      `Modo histórico: ${commits} commit(s) no branch padrão; os arquivos de versões antigas não entram na estimativa`,
+    );
+  }
+
+  const [sourceLimit, destLimit] = await Promise.all([rateLimitOf(src.token), rateLimitOf(dst.token)]);
+  const shared = sourceToken === destToken;
+  const check = (label: string, calls: number, limit: PreflightRateLimit) => {
+    if (calls > limit.remaining) {
+      warnings.push(
+        `O token de ${label} tem ${limit.remaining} requisição(ões) restante(s) e o mirror precisa de ~${calls}; ele será pausado até ${formatTime(limit.reset)}`,
+      );
+    }
+  };
+  if (shared) {
+    check("origem e destino", sourceCalls + destCalls, sourceLimit);
+  } else {
+    check("origem", sourceCalls, sourceLimit);
+    check("destino", destCalls, destLimit);
+  }
+  if (orphaned.length > 0) {
+    warnings.push(`${orphaned.length} branch(es) do destino não existem na origem e serão mantidos como estão`);
+  }
+
+  return {
+    source: { fullName: sourceData.full_name, defaultBranch: sBranch, branches: sourceBranches.map((b) => b.name) },
+    destination: { fullName: destData?.full_name ?? `${dst.owner}/${dst.repo}`, defaultBranch: dBranch, branches: [...destNames] },
+    overwritten,
+    created,
+    renamed: plan.targets.filter((t) => t.source !== t.destination),
+    pruned,
+    orphaned,
+    files: {
+      count: blobs.size,
+      bytes: [...blobs.values()].reduce((a, b) => a + b, 0),
+      submodules: submodules.size,
+      excluded: paths.excluded.size,
+    },
+    defaultBranch: { added: pathList(added), changed: pathList(changed), removed: pathList(removed) },
+    apiCalls: { source: sourceCalls, destination: destCalls },
+    rateLimit: { source: sourceLimit, destination: destLimit },
+    warnings,
+  };
+}
+
+// Source branch names for the branch picker
+async function listSourceBranches(sourceUrl: string, sourceToken: string) {
+  const src: RepoRef = { ...parseRepoUrl(sourceUrl), token: sourceToken };
+  const [sourceData, branches] = await Promise.all([
+    ghFetch(repoPath(src, ""), src.token),
+    ghPaginate<SourceBranch>(repoPath(src, "/branches"), src.token),
+  ]);
+  return { defaultBranch: sourceData.default_branch as string, branches: branches.map((b) => b.name) };
+}
+
+// Puts every destination ref the job wrote back on the commit recorded in its backup,
+// and deletes the refs the job created. Refuses when any of those refs moved after
+// the mirror wrote it, since rolling back would throw that work away.
+async function rollbackJob(job: MirrorJob, destToken: string): Promise<RollbackResult> {
+  const dst: RepoRef = { ...parseRepoUrl(job.dest_url), token: destToken };
+  const written = Object.entries(job.checkpoint.refs ?? {});
+  const before = new Map((job.backup?.refs ?? []).map((r) => [r.ref, r.sha]));
+
+  const current = new Map<string, string>();
+  for (const kind of ["heads", "tags"]) {
+    const refs: GitRef[] = (await ghFetch(repoPath(dst, `/git/matching-refs/${kind}`), dst.token)) || [];
+    for (const r of refs) current.set(r.ref, r.object.sha);
+  }
+  const moved = written.filter(([ref, sha]) => (current.get(ref) ?? null) !== sha).map(([ref]) => ref);
+  if (moved.length > 0) {
+    const list = moved.slice(0, 10).join(", ") + (moved.length > 10 ? ", ..." : "");
+    throw new MirrorError(
+      "destination_moved",
+      `O destino foi alterado depois do mirror (${list}). Desfazer agora apagaria essas alterações.`,
+    );
+  }
+
+  const result: RollbackResult = { restored: [], deleted: [], failed: [] };
+  const restore = async ([ref, sha]: [string, string | null]) => {
+    const original = before.get(ref);
+    if (original === sha) return;
+    const path = repoPath(dst, `/git/${ref}`);
+    try {
+      if (original === undefined) {
+        await ghFetch(path, dst.token, { method: "DELETE" });
+        result.deleted.push(ref);
+      } else if (sha === null) {
+        await ghFetch(repoPath(dst, "/git/refs"), dst.token, {
+          method: "POST",
+          body: JSON.stringify({ ref, sha: original }),
+        });
+        result.restored.push(ref);
+      } else {
+        await ghFetch(path, dst.token, { method: "PATCH", body: JSON.stringify({ sha: original, force: true }) });
+        result.restored.push(ref);
+      }
+    } catch (e) {
+      result.failed.push(`${ref}: ${errorMessage(e)}`);
+    }
+  };
+
+  for (const entry of written.filter(([ref]) => before.has(ref))) await restore(entry);
+  // The default branch cannot be deleted, so it is switched back before removing created branches
+  const previousDefault = job.checkpoint.previousDefaultBranch;
+  if (previousDefault) {
+    try {
+      await setDefaultBranch(dst, previousDefault);
+    } catch (e) {
+      result.failed.push(`branch padrão '${previousDefault}': ${errorMessage(e)}`);
+    }
+  }
+  for (const entry of written.filter(([ref]) => !before.has(ref))) await restore(entry);
+  return result;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.length > 0) : [];
+}
+
+function parseBranchMapping(value: unknown): BranchMapping {
+  const mapping = (value ?? {}) as Record<string, unknown>;
+  const rules = (Array.isArray(mapping.rules) ? mapping.rules : [])
+    .filter((r) => typeof r?.pattern === "string" && r.pattern.length > 0 && typeof r.replacement === "string")
+    .map((r) => ({ pattern: r.pattern as string, replacement: r.replacement as string }));
+  for (const { pattern } of rules) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new MirrorError("invalid_request", `Regra de renomeação de branch inválida: ${pattern}`);
+    }
+  }
+  return {
+    prefix: typeof mapping.prefix === "string" ? mapping.prefix.trim() : "",
+    suffix: typeof mapping.suffix === "string" ? mapping.suffix.trim() : "",
+    rules,
+  };
+}
+
+// Directory path inside a repository, without leading or trailing slashes ("" for the root)
+function repoDirectory(value: unknown): string {
+  return typeof value === "string" ? value.trim().replace(/^\/+|\/+$/g, "") : "";
+}
+
+function parseOptions(options: Record<string, unknown> | undefined): MirrorOptions {
+  const parsed: MirrorOptions = {
+    mode: options?.mode === "history" || options?.mode === "sync" ? options.mode : "snapshot",
+    branchPatterns: stringList(options?.branchPatterns),
+    branchMapping: parseBranchMapping(options?.branchMapping),
+    pruneTags: options?.pruneTags === true,
+    pruneBranches: options?.pruneBranches === true,
+    pruneBranchesExclude: stringList(options?.pruneBranchesExclude),
+    releases: options?.releases === true,
+    incremental: options?.incremental === true,
+    allowIncompleteTree: options?.allowIncompleteTree === true,
+    sourcePath: repoDirectory(options?.sourcePath),
+    destinationPath: repoDirectory(options?.destinationPath),
+    pathRules: stringList(options?.pathRules),
+    defaultBranch: options?.defaultBranch === "rename" || options?.defaultBranch === "switch" ? options.defaultBranch : "keep",
+    createDestination: options?.createDestination === true,
+    destinationVisibility: options?.destinationVisibility === "public" ? "public" : "private",
+  };
+  // Importing full history would need a merge with the destination history
+  if (parsed.destinationPath && parsed.mode === "history") {
+    throw new MirrorError("invalid_request", "A importação em um subdiretório não está disponível no modo histórico completo");
+  }
+  // The other branches, tags and releases of the destination, and which branch is its
+  // default, belong to it, not to the source
+  if (parsed.destinationPath && (parsed.pruneTags || parsed.pruneBranches || parsed.releases)) {
+    throw new MirrorError(
+      "invalid_request",
+      "A importação em um subdiretório não copia releases nem remove branches ou tags do destino",
+    );
+  }
+  if (parsed.destinationPath && parsed.defaultBranch !== "keep") {
+    throw new MirrorError(
+      "invalid_request",
+      "A importação em um subdiretório não renomeia nem troca o branch padrão do destino",
+    );
+  }
+  return parsed;
+}
+
+// Job ids are listed publicly, so reading a job's log (which names private repositories,
+// branches and files), cancelling it or rolling it back takes a token that can push to
+// its destination.
+async function destinationAccessError(job: MirrorJob, token: string): Promise<string | null> {
+  try {
+    const repo = await ghFetch(repoPath({ ...parseRepoUrl(job.dest_url), token }, ""), token);
+    if (repo.permissions?.push) return null;
+  } catch (e) {
+    const code = errorCode(e);
+    if (code !== "not_found" && code !== "access_denied") throw e;
+  }
+  return "O token informado não tem permissão de escrita no destino deste job";
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 }
 
 serve(async (req) => {
@@ -234,27 +1979,148 @@ serve(async (req) => {
   }
 
   try {
-    const { sourceUrl, destUrl, sourceToken, destToken } = await req.json();
+    const { action, jobId, sourceUrl, destUrl, sourceToken, destToken, options, resumeJobId } = await req.json();
+
+    if (action === "preflight") {
+      if (!sourceUrl || !destUrl || !sourceToken || !destToken) {
+        return jsonResponse({ error: "Todos os campos são obrigatórios" }, 400);
+      }
+      const report = await preflight(sourceUrl, destUrl, sourceToken, destToken, parseOptions(options));
+      return jsonResponse({ success: true, report }, 200);
+    }
+
+    if (action === "branches") {
+      if (!sourceUrl || !sourceToken) return jsonResponse({ error: "URL e token da origem são obrigatórios" }, 400);
+      return jsonResponse({ success: true, ...(await listSourceBranches(sourceUrl, sourceToken)) }, 200);
+    }
+
+    if (action === "rollback") {
+      const existing = jobId ? await loadJob(jobId) : null;
+      if (!existing) return jsonResponse({ error: `Job ${jobId} não encontrado` }, 404);
+      if (!destToken) return jsonResponse({ error: "O token do destino é obrigatório" }, 400);
+      if (existing.status === "queued" || existing.status === "running") {
+        return jsonResponse({ error: "Este job ainda está em execução; cancele-o antes de desfazer" }, 409);
+      }
+      if (existing.rolled_back_at) return jsonResponse({ error: "Este mirror já foi desfeito" }, 409);
+      if (Object.keys(existing.checkpoint.refs ?? {}).length === 0) {
+        return jsonResponse({ error: "Este job não alterou nenhum branch ou tag do destino" }, 400);
+      }
+
+      const denied = await destinationAccessError(existing, destToken);
+      if (denied) return jsonResponse({ error: denied }, 403);
+
+      let result: RollbackResult;
+      try {
+        result = await rollbackJob(existing, destToken);
+      } catch (e) {
+        if (errorCode(e) === "destination_moved") return jsonResponse({ error: errorMessage(e) }, 409);
+        throw e;
+      }
+      const at = new Date().toISOString();
+      const complete = result.failed.length === 0;
+      // Refs already put back leave the checkpoint, so another attempt only undoes the rest
+      const undone = new Set([...result.restored, ...result.deleted]);
+      const refs = Object.fromEntries(Object.entries(existing.checkpoint.refs ?? {}).filter(([ref]) => !undone.has(ref)));
+      const counts = `${result.restored.length} ref(s) restaurada(s), ${result.deleted.length} removida(s)`;
+      const message = complete
+        ? `↩️ Mirror desfeito: ${counts}`
+        : `⚠️ Mirror desfeito em parte: ${counts}, ${result.failed.length} com erro; tente desfazer de novo`;
+      await updateJob(existing.id, {
+        ...(complete ? { rolled_back_at: at } : {}),
+        checkpoint: { ...existing.checkpoint, refs },
+        touched_refs: Object.keys(refs).length,
+        events: [
+          ...existing.events,
+          { type: "log", stage: "rollback", level: complete ? "success" : "warn", message, at },
+          ...result.failed.map((failure) => ({
+            type: "log" as const,
+            stage: "rollback" as const,
+            level: "error" as const,
+            message: `❌ Não foi possível desfazer ${failure}`,
+            at,
+          })),
+        ],
+      });
+      return jsonResponse({ success: true, ...result }, 200);
+    }
+
+    if (action === "logs") {
+      const existing = jobId ? await loadJob(jobId) : null;
+      if (!existing) return jsonResponse({ error: `Job ${jobId} não encontrado` }, 404);
+      if (!destToken) return jsonResponse({ error: "O token do destino é obrigatório" }, 400);
+      const denied = await destinationAccessError(existing, destToken);
+      if (denied) return jsonResponse({ error: denied }, 403);
+      return jsonResponse({ success: true, events: existing.events }, 200);
+    }
+
+    if (action === "cancel") {
+      const existing = jobId ? await loadJob(jobId) : null;
+      if (!existing) return jsonResponse({ error: `Job ${jobId} não encontrado` }, 404);
+      if (!destToken) return jsonResponse({ error: "O token do destino é obrigatório" }, 400);
+      if (existing.status !== "queued" && existing.status !== "running") {
+        return jsonResponse({ error: "Este job não está em execução" }, 409);
+      }
+      const denied = await destinationAccessError(existing, destToken);
+      if (denied) return jsonResponse({ error: denied }, 403);
+      await updateJob(existing.id, { cancel_requested: true });
+      return jsonResponse({ success: true }, 202);
+    }
 
     if (!sourceUrl || !destUrl || !sourceToken || !destToken) {
-      return new Response(
-        JSON.stringify({ error: "Todos os campos são obrigatórios" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Todos os campos são obrigatórios" }, 400);
     }
 
-    const logs = await mirrorRepo(sourceUrl, destUrl, sourceToken, destToken);
+    let job: MirrorJob;
+    if (resumeJobId) {
+      const existing = await loadJob(resumeJobId);
+      if (!existing) return jsonResponse({ error: `Job ${resumeJobId} não encontrado` }, 404);
+      if (existing.status === "completed") return jsonResponse({ error: "Este job já foi concluído" }, 409);
+      const active = existing.status === "queued" || existing.status === "running";
+      if (active && !isJobStale(existing.status, existing.updated_at)) {
+        return jsonResponse({ error: "Este job ainda está em execução" }, 409);
+      }
+      if (existing.source_url !== sourceUrl || existing.dest_url !== destUrl) {
+        return jsonResponse({ error: "Origem e destino precisam ser os mesmos do job original" }, 400);
+      }
+      job = existing;
+      await updateJob(job.id, { status: "queued", error: null, cancel_requested: false });
+    } else {
+      job = await createJob(sourceUrl, destUrl, parseOptions(options));
+    }
 
-    return new Response(
-      JSON.stringify({ success: true, logs }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    // The job runs in a background worker; this response only streams its events
+    // (as Server-Sent Events) for as long as the client stays connected.
+    const encoder = new TextEncoder();
+    let listener: ((event: MirrorEvent) => void) | null = null;
+    const stream = new ReadableStream({
+      start(controller) {
+        listener = (event) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+            if (event.type === "done" || event.type === "error") controller.close();
+          } catch {
+            listener = null; // Client went away; the worker keeps going
+          }
+        };
+      },
+      cancel() {
+        listener = null;
+      },
+    });
+
+    EdgeRuntime.waitUntil(
+      runJob(job, sourceToken, destToken, Boolean(resumeJobId), (event) => listener?.(event)),
     );
+
+    return new Response(stream, {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Erro desconhecido";
+    // Invalid URLs, rename rules or option combinations are the caller's fault
+    if (errorCode(error) === "invalid_request") return jsonResponse({ success: false, error: message }, 400);
     console.error("Mirror error:", message);
-    return new Response(
-      JSON.stringify({ success: false, error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ success: false, error: message }, 500);
   }
 });
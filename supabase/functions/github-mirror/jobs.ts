@@ -0,0 +1,180 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { MirrorEvent, MirrorStage } from "../_shared/mirror-events.ts";
+import type { JobCounts, JobStatus, MirrorBackup } from "../_shared/mirror-jobs.ts";
+
+// Everything needed to continue a mirror without redoing finished work.
+export type Checkpoint = {
+  // Blob SHAs already present in the destination
+  blobs: string[];
+  // Source commit SHA -> destination commit SHA
+  commits: Record<string, string>;
+  // Source tree SHA -> destination tree SHA (history mode)
+  trees: Record<string, string>;
+  completedBranches: string[];
+  // Placeholder commit written by the "clean" step (snapshot mode)
+  cleanCommit?: string;
+  // Destination commit holding the mirrored default branch (snapshot mode)
+  defaultHead?: string;
+  // The destination had no commits when the job started
+  emptyDestination?: boolean;
+  // Destination default branch before the job renamed or switched it
+  previousDefaultBranch?: string;
+  // Destination refs written so far -> SHA they were left at (null when deleted)
+  refs?: Record<string, string | null>;
+};
+
+export type StoredEvent = MirrorEvent & { at: string };
+
+export type MirrorJob = {
+  id: string;
+  source_url: string;
+  dest_url: string;
+  options: Record<string, unknown>;
+  status: JobStatus;
+  stage: MirrorStage | null;
+  checkpoint: Partial<Checkpoint>;
+  // Number of checkpoint.refs entries, readable without loading the checkpoint
+  touched_refs: number;
+  error: string | null;
+  // Set by a cancel request; the worker stops at its next safe point
+  cancel_requested: boolean;
+  counts: JobCounts;
+  events: StoredEvent[];
+  backup: MirrorBackup | null;
+  rolled_back_at: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+export async function createJob(
+  sourceUrl: string,
+  destUrl: string,
+  options: Record<string, unknown>,
+): Promise<MirrorJob> {
+  const { data, error } = await supabase
+    .from("mirror_jobs")
+    .insert({ source_url: sourceUrl, dest_url: destUrl, options, status: "queued" })
+    .select()
+    .single();
+  if (error) throw new Error(`Erro ao registrar o job: ${error.message}`);
+  return data as MirrorJob;
+}
+
+export async function loadJob(id: string): Promise<MirrorJob | null> {
+  const { data, error } = await supabase.from("mirror_jobs").select().eq("id", id).maybeSingle();
+  if (error) throw new Error(`Erro ao carregar o job ${id}: ${error.message}`);
+  return data as MirrorJob | null;
+}
+
+export async function updateJob(
+  id: string,
+  changes: Partial<
+    Pick<
+      MirrorJob,
+      | "status"
+      | "stage"
+      | "checkpoint"
+      | "touched_refs"
+      | "error"
+      | "cancel_requested"
+      | "counts"
+      | "events"
+      | "backup"
+      | "rolled_back_at"
+      | "started_at"
+      | "finished_at"
+    >
+  >,
+) {
+  const { error } = await supabase
+    .from("mirror_jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw new Error(`Erro ao salvar o job ${id}: ${error.message}`);
+}
+
+export async function isCancelRequested(id: string): Promise<boolean> {
+  const { data, error } = await supabase.from("mirror_jobs").select("cancel_requested").eq("id", id).maybeSingle();
+  if (error) throw new Error(`Erro ao consultar o job ${id}: ${error.message}`);
+  return data?.cancel_requested === true;
+}
+
+const HEARTBEAT_MS = 30_000;
+
+// Keeps a job row in sync with a running mirror: every event is appended to the job
+// log and checkpoints are saved alongside. Writes are throttled and never overlap.
+export function createJobRecorder(job: MirrorJob) {
+  const events: StoredEvent[] = [...(job.events ?? [])];
+  let stage: MirrorStage | null = job.stage;
+  let checkpoint: Partial<Checkpoint> = job.checkpoint;
+  let lastFlush = 0;
+  let writes = Promise.resolve();
+  let cancelled = false;
+  let lastPoll = 0;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const write = (changes: Parameters<typeof updateJob>[1]) => {
+    writes = writes
+      .then(() =>
+        updateJob(job.id, {
+          stage,
+          checkpoint,
+          touched_refs: Object.keys(checkpoint.refs ?? {}).length,
+          events,
+          ...changes,
+        })
+      )
+      .catch((e) => console.error("Job update error:", e instanceof Error ? e.message : e));
+    return writes;
+  };
+
+  const flush = (force = false) => {
+    if (!force && Date.now() - lastFlush < 3000) return writes;
+    lastFlush = Date.now();
+    return write({});
+  };
+
+  // Keeps updated_at fresh through long steps that log nothing (big trees, asset uploads,
+  // rate-limit pauses), so the job is not taken for one whose worker died
+  const touch = () => {
+    writes = writes
+      .then(() => updateJob(job.id, {}))
+      .catch((e) => console.error("Job heartbeat error:", e instanceof Error ? e.message : e));
+  };
+
+  return {
+    start: () => {
+      heartbeat ??= setInterval(touch, HEARTBEAT_MS);
+      return write({ status: "running", error: null, started_at: new Date().toISOString(), finished_at: null });
+    },
+    record: (event: MirrorEvent) => {
+      if (event.type === "log") stage = event.stage;
+      events.push({ ...event, at: new Date().toISOString() });
+      void flush();
+    },
+    saveCheckpoint: (next: Checkpoint) => {
+      checkpoint = next;
+      return flush(true);
+    },
+    saveBackup: (backup: MirrorBackup) => write({ backup }),
+    // Polled at every safe point, so the flag is read at most every 2s
+    cancelRequested: async () => {
+      if (cancelled || Date.now() - lastPoll < 2000) return cancelled;
+      lastPoll = Date.now();
+      try {
+        cancelled = await isCancelRequested(job.id);
+      } catch (e) {
+        console.error("Job cancel check error:", e instanceof Error ? e.message : e);
+      }
+      return cancelled;
+    },
+    finish: (status: JobStatus, changes: { counts?: JobCounts; error?: string } = {}) => {
+      clearInterval(heartbeat);
+      return write({ status, ...changes, finished_at: new Date().toISOString() });
+    },
+  };
+}
@@ -0,0 +1,52 @@
+// Gitignore-style rules choosing which source files are mirrored, from the request
+// options and from a `.mirrorignore` file at the root of the mirrored tree (the split
+// directory, with a subdirectory split). Paths are relative to that root.
+//
+// Each rule is a glob that excludes what it matches; "!" re-includes. A trailing "/"
+// only matches directories, and a rule with a "/" anywhere else is anchored at the
+// repository root (otherwise it matches at any depth). A rule matching a directory
+// applies to everything under it, and the last matching rule wins, so "secrets/"
+// followed by "!secrets/README.md" keeps just that file.
+
+import { globToRegExp } from "../_shared/branch-patterns.ts";
+
+export type PathRule = { exclude: boolean; dirOnly: boolean; regex: RegExp };
+
+// Blank lines and "#" comments are skipped
+export function compilePathRules(lines: string[]): PathRule[] {
+  const rules: PathRule[] = [];
+  for (const raw of lines) {
+    let line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const exclude = !line.startsWith("!");
+    if (!exclude) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (!line) continue;
+    const glob = globToRegExp(line).source.slice(1); // Drop the "^" to re-anchor below
+    rules.push({ exclude, dirOnly, regex: new RegExp(anchored ? `^${glob}` : `^(?:.*/)?${glob}`) });
+  }
+  return rules;
+}
+
+export function parsePathRules(text: string): PathRule[] {
+  return compilePathRules(text.split(/\r?\n/));
+}
+
+export function isPathExcluded(path: string, rules: PathRule[]): boolean {
+  const segments = path.split("/");
+  let excluded = false;
+  for (const rule of rules) {
+    // The path's parent directories first, then the path itself
+    for (let depth = 1; depth <= segments.length; depth++) {
+      if (rule.dirOnly && depth === segments.length) break;
+      if (rule.regex.test(segments.slice(0, depth).join("/"))) {
+        excluded = rule.exclude;
+        break;
+      }
+    }
+  }
+  return excluded;
+}
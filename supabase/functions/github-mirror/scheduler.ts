@@ -0,0 +1,181 @@
+// Schedules GitHub API requests per token. GitHub enforces a primary limit (requests
+// per hour, reported in X-RateLimit-* headers) and secondary limits (bursts and
+// concurrency, answered with 403/429 and usually Retry-After). Requests wait while a
+// token is limited, and transient failures are retried with exponential backoff.
+
+const MAX_CONCURRENT = 10;
+const MAX_RETRIES = 5;
+// The edge runtime stops a worker after 150-400 s of wall-clock time, so a longer pause
+// fails the job as rate_limited instead; it can be resumed once the limit resets
+const MAX_WAIT_MS = 60_000;
+const SECONDARY_MIN_WAIT_MS = 60_000;
+const RETRYABLE_STATUS = new Set([500, 502, 503, 504]);
+
+export type RateLimitScope = "primary" | "secondary";
+
+export type RateLimitNotice = { scope: RateLimitScope; until: number };
+
+export class RateLimitError extends Error {
+  constructor(public scope: RateLimitScope, public until: number) {
+    super(
+      scope === "primary"
+        ? `Limite de requisições do GitHub esgotado para este token (reinicia às ${formatTime(until)})`
+        : "Limite secundário do GitHub atingido repetidamente (muitas requisições em pouco tempo)",
+    );
+  }
+}
+
+type TokenState = {
+  remaining: number | null;
+  // Epoch ms when the primary limit resets
+  reset: number;
+  // Epoch ms until which no request is sent (secondary limits)
+  pausedUntil: number;
+  // Latest pause already reported to listeners
+  noticeUntil: number;
+  inFlight: number;
+  waiting: (() => void)[];
+  listeners: Set<(notice: RateLimitNotice) => void>;
+};
+
+const tokens = new Map<string, TokenState>();
+
+function stateOf(token: string): TokenState {
+  let state = tokens.get(token);
+  if (!state) {
+    state = { remaining: null, reset: 0, pausedUntil: 0, noticeUntil: 0, inFlight: 0, waiting: [], listeners: new Set() };
+    tokens.set(token, state);
+  }
+  return state;
+}
+
+export function formatTime(epochMs: number) {
+  return new Date(epochMs).toISOString().slice(11, 19) + " UTC";
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function backoff(attempt: number) {
+  return 1000 * 2 ** attempt + Math.floor(Math.random() * 500);
+}
+
+// Notifies `listener` whenever requests made with `token` are paused by a rate limit.
+export function watchRateLimits(token: string, listener: (notice: RateLimitNotice) => void) {
+  const { listeners } = stateOf(token);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Holds the token's next requests until `until`. acquire() fails them with RateLimitError
+// instead when that is more than MAX_WAIT_MS away, so such pauses are not announced.
+function pause(state: TokenState, scope: RateLimitScope, until: number) {
+  if (scope === "primary") {
+    state.remaining = 0;
+    state.reset = until;
+  } else {
+    state.pausedUntil = Math.max(state.pausedUntil, until);
+  }
+  if (until - Date.now() > MAX_WAIT_MS) return;
+  // Concurrent requests hitting the same limit report it once
+  if (until <= state.noticeUntil) return;
+  state.noticeUntil = until;
+  for (const listener of state.listeners) listener({ scope, until });
+}
+
+// Waits until the token may send another request, then takes a concurrency slot.
+async function acquire(state: TokenState) {
+  while (true) {
+    const now = Date.now();
+    const primaryUntil = state.remaining === 0 ? state.reset : 0;
+    const blockedUntil = Math.max(state.pausedUntil, primaryUntil);
+    if (blockedUntil - now > MAX_WAIT_MS) {
+      throw new RateLimitError(blockedUntil === primaryUntil ? "primary" : "secondary", blockedUntil);
+    }
+    if (blockedUntil > now) {
+      await sleep(blockedUntil - now);
+      continue;
+    }
+    if (state.remaining === 0) state.remaining = null; // The window has reset
+    if (state.inFlight < MAX_CONCURRENT) break;
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  }
+  state.inFlight++;
+}
+
+function release(state: TokenState) {
+  state.inFlight--;
+  state.waiting.shift()?.();
+}
+
+function track(state: TokenState, res: Response) {
+  const remaining = res.headers.get("x-ratelimit-remaining");
+  const reset = res.headers.get("x-ratelimit-reset");
+  if (reset !== null) state.reset = Number(reset) * 1000;
+  if (remaining === null) return;
+  // The response itself is fine, but the window is used up: later requests wait for the reset
+  if (remaining === "0") pause(state, "primary", state.reset + 1000);
+  else state.remaining = Number(remaining);
+}
+
+// Returns how long to wait before retrying, or null when the response is final.
+async function retryDelay(state: TokenState, res: Response, attempt: number): Promise<number | null> {
+  if (RETRYABLE_STATUS.has(res.status)) return backoff(attempt);
+  if (res.status !== 403 && res.status !== 429) return null;
+
+  if (res.headers.get("x-ratelimit-remaining") === "0") {
+    pause(state, "primary", state.reset + 1000);
+    return 0;
+  }
+  const retryAfter = res.headers.get("retry-after");
+  const body = await res.clone().text();
+  if (retryAfter !== null || /secondary rate limit|abuse/i.test(body)) {
+    const wait = retryAfter !== null ? Number(retryAfter) * 1000 : Math.max(SECONDARY_MIN_WAIT_MS, backoff(attempt));
+    pause(state, "secondary", Date.now() + wait);
+    return 0;
+  }
+  return null; // A genuine permission error
+}
+
+// fetch() for api.github.com, scheduled on the token's limits. Rate-limited and
+// transient (5xx) responses are retried; other responses are returned as they are.
+// Throws RateLimitError when the token stays limited for too long. A request with a
+// streamed body passes `init` as a function, called again for every attempt.
+export async function ghRequest(
+  url: string,
+  token: string,
+  init: RequestInit | (() => Promise<RequestInit>) = {},
+): Promise<Response> {
+  const state = stateOf(token);
+  for (let attempt = 0; ; attempt++) {
+    const request = typeof init === "function" ? await init() : init;
+    try {
+      await acquire(state);
+    } catch (e) {
+      if (request.body instanceof ReadableStream) await request.body.cancel();
+      throw e;
+    }
+    let res: Response;
+    try {
+      res = await fetch(url, request);
+    } catch (e) {
+      release(state);
+      // Network errors are as transient as a 502
+      if (attempt >= MAX_RETRIES) throw e;
+      await sleep(backoff(attempt));
+      continue;
+    }
+    release(state);
+    track(state, res);
+
+    const delay = await retryDelay(state, res, attempt);
+    if (delay === null) return res;
+    if (attempt >= MAX_RETRIES) {
+      if (RETRYABLE_STATUS.has(res.status)) return res;
+      throw new RateLimitError(state.pausedUntil > Date.now() ? "secondary" : "primary", Math.max(state.pausedUntil, state.reset));
+    }
+    await res.body?.cancel();
+    if (delay > 0) await sleep(delay);
+  }
+}
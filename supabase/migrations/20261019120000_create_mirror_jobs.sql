@@ -0,0 +1,16 @@
+-- Mirror jobs and their resumable checkpoints. Rows are written only by the
+-- github-mirror edge function (service role); access tokens are never stored.
+create table public.mirror_jobs (
+  id uuid primary key default gen_random_uuid(),
+  source_url text not null,
+  dest_url text not null,
+  options jsonb not null default '{}'::jsonb,
+  status text not null default 'running' check (status in ('running', 'failed', 'completed')),
+  stage text,
+  checkpoint jsonb not null default '{}'::jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.mirror_jobs enable row level security;
@@ -0,0 +1,28 @@
+-- Jobs are now queued by the github-mirror function and processed by a background
+-- worker; keep enough about each run to list it on the /jobs page.
+alter table public.mirror_jobs drop constraint mirror_jobs_status_check;
+alter table public.mirror_jobs
+  add constraint mirror_jobs_status_check check (status in ('queued', 'running', 'failed', 'completed'));
+alter table public.mirror_jobs alter column status set default 'queued';
+
+alter table public.mirror_jobs
+  add column started_at timestamptz,
+  add column finished_at timestamptz,
+  add column counts jsonb not null default '{}'::jsonb,
+  add column events jsonb not null default '[]'::jsonb;
+
+create index mirror_jobs_created_at_idx on public.mirror_jobs (created_at desc);
+
+-- The job list is read with the public anon key, so it only gets the columns the /jobs
+-- page shows. Event logs, checkpoints and options can name private repositories, branches
+-- and files; the github-mirror function hands a job's log out only to holders of a token
+-- that can push to its destination.
+revoke select on public.mirror_jobs from anon, authenticated;
+grant select (
+  id, source_url, dest_url, status, stage, error, counts,
+  created_at, updated_at, started_at, finished_at
+) on public.mirror_jobs to anon, authenticated;
+
+create policy "Mirror job summaries are readable by everyone"
+  on public.mirror_jobs for select
+  using (true);
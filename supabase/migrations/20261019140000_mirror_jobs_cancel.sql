@@ -0,0 +1,8 @@
+-- Running mirrors can be cancelled: the github-mirror function sets cancel_requested
+-- and the worker stops at its next safe point, finishing the job as 'cancelled'.
+alter table public.mirror_jobs drop constraint mirror_jobs_status_check;
+alter table public.mirror_jobs
+  add constraint mirror_jobs_status_check
+  check (status in ('queued', 'running', 'failed', 'completed', 'cancelled'));
+
+alter table public.mirror_jobs add column cancel_requested boolean not null default false;
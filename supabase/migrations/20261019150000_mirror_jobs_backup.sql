@@ -0,0 +1,4 @@
+-- Destination refs copied under refs/mirror-backup/<timestamp>/ before a mirror
+-- overwrites anything, so a run against the wrong destination can be undone.
+alter table public.mirror_jobs add column backup jsonb;
+grant select (backup) on public.mirror_jobs to anon, authenticated;
@@ -0,0 +1,3 @@
+-- Set when the refs a job wrote were put back on their backed-up commits.
+alter table public.mirror_jobs add column rolled_back_at timestamptz;
+grant select (rolled_back_at) on public.mirror_jobs to anon, authenticated;
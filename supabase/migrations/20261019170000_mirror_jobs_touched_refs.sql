@@ -0,0 +1,4 @@
+-- Number of destination refs a job wrote (the keys of checkpoint.refs), kept next to the
+-- checkpoint so the job list can offer a rollback without downloading the checkpoint.
+alter table public.mirror_jobs add column touched_refs integer not null default 0;
+grant select (touched_refs) on public.mirror_jobs to anon, authenticated;